@@ -7,6 +7,9 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "@/components/theme-provider";
 import Index from "./pages/Index";
 import CustomerMappings from "./pages/CustomerMappings";
+import StatementTemplates from "./pages/StatementTemplates";
+import PaymentMethodRules from "./pages/PaymentMethodRules";
+import DepositAccounts from "./pages/DepositAccounts";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -21,6 +24,9 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/mappings" element={<CustomerMappings />} />
+            <Route path="/templates" element={<StatementTemplates />} />
+            <Route path="/payment-methods" element={<PaymentMethodRules />} />
+            <Route path="/deposit-accounts" element={<DepositAccounts />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
@@ -0,0 +1,266 @@
+#!/usr/bin/env node
+// QuickBooks Upload CLI - convert a bank statement into the QuickBooks import file without the browser,
+// using the same parsers, customer mapping lookup and exporters as the web app
+//
+//   quickbooksupload convert --bank nmb statement.txt -o out.csv
+//
+// Build with `npm run build:cli`.
+import { readFileSync, writeFileSync } from 'node:fs';
+import { BANK_FORMATS, BankId } from '../utils/banks';
+import { detectBankFormat } from '../utils/formatDetection';
+import { CustomerMapping, parseCustomerMappingsCSV } from '../utils/customerMappingService';
+import { ParseResult, parseTransactions } from '../utils/transactionParser';
+import { generateChargesCSV, generateCSV, generateExcelXML, generateFailedRecordsReport, generateWithdrawalsCSV } from '../utils/excelExport';
+import { DEFAULT_CHARGE_ACCOUNTS } from '../utils/chargeClassifier';
+import { findUnmappedBranches, parseDepositAccountMappingsCSV, setDepositAccountMappings } from '../utils/depositAccountMapping';
+import { describeReconciliation } from '../utils/statementSummary';
+import { formatMoney } from '../utils/money';
+import { describeLineNumbers } from '../utils/recordAssembler';
+import { DEFAULT_EXPORT_DATE_FORMAT, EXPORT_DATE_FORMATS, ExportDateFormat } from '../utils/dateNormalization';
+
+const DEFAULT_MAX_FAILURE_RATE = 5;   // Percent of records
+
+// Exit codes
+const EXIT_USAGE = 1;                 // Bad arguments or unreadable input
+const EXIT_TOO_MANY_FAILURES = 2;     // Converted, but the failure rate was over the threshold
+const EXIT_NOTHING_PARSED = 3;        // No transaction could be read (e.g. the wrong --bank); only failed records written
+const EXIT_UNMAPPED_BRANCHES = 4;     // Payments from branches with no deposit account, with --unmapped-branches fail
+
+const USAGE = `Usage: quickbooksupload convert [options] <statement file>
+
+Options:
+  --bank <id>               Statement format: ${BANK_FORMATS.map(b => b.id.toLowerCase()).join(', ')}
+                            (detected from the file when omitted)
+  -o, --output <file>       Output file; .xls writes Excel XML, anything else CSV (default: <statement>.csv)
+  --mappings <file>         Customer mappings CSV (Member ID, Name, Phone, Transaction No)
+  --deposit-accounts <file> Branch to QuickBooks deposit account CSV (Bank, Branch, QuickBooks Account),
+                            as downloaded from the Deposit Accounts page
+  --unmapped-branches <warn|fail>
+                            On payments from branches with no deposit account: warn, or exit with code ${EXIT_UNMAPPED_BRANCHES}
+                            without writing any output (default: warn)
+  --failed <file>           Failed records report (default: <output>.failed.txt)
+  --withdrawals <file>      Expenses/transfers CSV of the other debits (default: <output>.withdrawals.csv)
+  --charges <file>          Bank charges, levies and taxes CSV (default: <output>.charges.csv)
+  --max-failure-rate <pct>  Exit with code ${EXIT_TOO_MANY_FAILURES} when more than this percentage of records fail (default: ${DEFAULT_MAX_FAILURE_RATE})
+  --date-format <format>    ${EXPORT_DATE_FORMATS.map(f => f.value).join(', ')} (default: ${DEFAULT_EXPORT_DATE_FORMAT})
+  -h, --help                Show this help`;
+
+interface ConvertOptions {
+  input: string;
+  bank?: string;
+  output?: string;
+  mappings?: string;
+  depositAccounts?: string;
+  unmappedBranches: 'warn' | 'fail';
+  failed?: string;
+  withdrawals?: string;
+  charges?: string;
+  maxFailureRate: number;
+  dateFormat: ExportDateFormat;
+}
+
+class UsageError extends Error {}
+
+/**
+ * Read the arguments after "convert"
+ */
+function parseConvertArgs(args: string[]): ConvertOptions {
+  const options: Partial<ConvertOptions> = {
+    maxFailureRate: DEFAULT_MAX_FAILURE_RATE,
+    dateFormat: DEFAULT_EXPORT_DATE_FORMAT,
+    unmappedBranches: 'warn'
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined) throw new UsageError(`Missing value for ${arg}`);
+      return next;
+    };
+
+    switch (arg) {
+      case '--bank':
+        options.bank = value();
+        break;
+      case '-o':
+      case '--output':
+        options.output = value();
+        break;
+      case '--mappings':
+        options.mappings = value();
+        break;
+      case '--deposit-accounts':
+        options.depositAccounts = value();
+        break;
+      case '--unmapped-branches': {
+        const action = value();
+        if (action !== 'warn' && action !== 'fail') throw new UsageError('--unmapped-branches must be "warn" or "fail"');
+        options.unmappedBranches = action;
+        break;
+      }
+      case '--failed':
+        options.failed = value();
+        break;
+      case '--withdrawals':
+        options.withdrawals = value();
+        break;
+      case '--charges':
+        options.charges = value();
+        break;
+      case '--max-failure-rate': {
+        const rate = parseFloat(value());
+        if (isNaN(rate) || rate < 0 || rate > 100) throw new UsageError('--max-failure-rate must be a percentage between 0 and 100');
+        options.maxFailureRate = rate;
+        break;
+      }
+      case '--date-format': {
+        const format = value();
+        if (!EXPORT_DATE_FORMATS.some(f => f.value === format)) throw new UsageError(`Unknown date format "${format}"`);
+        options.dateFormat = format as ExportDateFormat;
+        break;
+      }
+      default:
+        if (arg.startsWith('-')) throw new UsageError(`Unknown option ${arg}`);
+        if (options.input) throw new UsageError('Only one statement file can be converted at a time');
+        options.input = arg;
+    }
+  }
+
+  if (!options.input) throw new UsageError('No statement file given');
+  return options as ConvertOptions;
+}
+
+/**
+ * Find the bank format named on the command line, or detect it from the statement
+ */
+function resolveBank(name: string | undefined, rawData: string): BankId {
+  if (name) {
+    const bank = BANK_FORMATS.find(b => b.id.toLowerCase() === name.toLowerCase());
+    if (!bank) throw new UsageError(`Unknown bank "${name}"`);
+    return bank.id;
+  }
+
+  const detection = detectBankFormat(rawData);
+  if (!detection.bankId) throw new UsageError('Could not detect the statement format; pass --bank');
+  console.log(`Detected ${detection.bankId} format (${Math.round(detection.confidence * 100)}% of lines)`);
+  return detection.bankId;
+}
+
+function writeFailedRecords(result: ParseResult, failedOutput: string): void {
+  if (result.failCount === 0) return;
+  writeFileSync(failedOutput, generateFailedRecordsReport(result.failed), 'utf8');
+  console.log(`Wrote ${result.failCount} failed records to ${failedOutput}`);
+}
+
+function convert(options: ConvertOptions): number {
+  const rawData = readFileSync(options.input, 'utf8');
+  const bankType = resolveBank(options.bank, rawData);
+
+  const customerMappings: CustomerMapping[] = options.mappings
+    ? parseCustomerMappingsCSV(readFileSync(options.mappings, 'utf8'))
+    : [];
+
+  // Without a mapping file every branch is unmapped and keeps the statement's name
+  setDepositAccountMappings(options.depositAccounts
+    ? parseDepositAccountMappingsCSV(readFileSync(options.depositAccounts, 'utf8'))
+    : []);
+
+  const result = parseTransactions(rawData, bankType, customerMappings);
+
+  const output = options.output || options.input.replace(/\.[^./\\]*$/, '') + '.csv';
+  if (result.successCount === 0) {
+    writeFailedRecords(result, options.failed || `${output}.failed.txt`);
+    console.error(`No transactions could be read from ${options.input} as ${bankType} statement; check --bank`);
+    return EXIT_NOTHING_PARSED;
+  }
+
+  const unmapped = findUnmappedBranches(result.successful.filter(t => t.direction === 'Credit' && !t.reversal));
+  if (unmapped.length > 0) {
+    const report = options.unmappedBranches === 'fail' ? console.error : console.warn;
+    report(`${unmapped.length} branch(es) have no QuickBooks deposit account${options.depositAccounts ? ` in ${options.depositAccounts}` : ' (pass --deposit-accounts)'}:`);
+    unmapped.forEach(b => report(`  ${b.branch}${b.name !== b.branch ? ` (${b.name})` : ''}: ${b.count} payment(s)`));
+    if (options.unmappedBranches === 'fail') return EXIT_UNMAPPED_BRANCHES;
+  }
+
+  const content = /\.xls$/i.test(output)
+    ? generateExcelXML(result.successful, options.dateFormat)
+    : '\ufeff' + generateCSV(result.successful, options.dateFormat); // BOM for Excel
+  writeFileSync(output, content, 'utf8');
+
+  const credits = result.successful.filter(t => t.direction === 'Credit' && !t.reversal).length;
+  const charges = result.successful.filter(t => t.chargeCategory && !t.reversal).length;
+  const reversed = result.successful.filter(t => t.reversal);
+  const matched = result.successful.filter(t => t.customer).length;
+  console.log(`Wrote ${credits} payments to ${output}`);
+  const debits = result.successful.filter(t => t.direction === 'Debit' && !t.chargeCategory && !t.reversal).length;
+  if (debits > 0) {
+    const withdrawalsOutput = options.withdrawals || output.replace(/\.[^./\\]*$/, '') + '.withdrawals.csv';
+    writeFileSync(withdrawalsOutput, '\ufeff' + generateWithdrawalsCSV(result.successful, options.dateFormat), 'utf8');
+    console.log(`Wrote ${debits} debits (expenses/transfers) to ${withdrawalsOutput}`);
+  }
+  if (reversed.length > 0) {
+    console.log(`${reversed.length / 2} reversed payment(s) and their reversals were left out:`);
+    reversed
+      .filter(t => t.reversal.role === 'reversal')
+      .forEach(t => console.log(`  ${formatMoney(t.amount, true)} ref ${t.reversal.reference}${t.lineNumbers ? ` (${describeLineNumbers(t.lineNumbers)})` : ''}`));
+  }
+
+  if (charges > 0) {
+    // Expense accounts are configured in the web app; the CLI books to the defaults
+    const chargesOutput = options.charges || output.replace(/\.[^./\\]*$/, '') + '.charges.csv';
+    writeFileSync(chargesOutput, '\ufeff' + generateChargesCSV(result.successful, DEFAULT_CHARGE_ACCOUNTS, options.dateFormat), 'utf8');
+    console.log(`Wrote ${charges} bank charges to ${chargesOutput}`);
+  }
+  if (customerMappings.length > 0) {
+    console.log(`Matched ${matched} of ${result.successCount} customer names from ${customerMappings.length} mappings`);
+  }
+
+  writeFailedRecords(result, options.failed || `${output}.failed.txt`);
+
+  if (result.mixedCurrencies) {
+    console.warn(`Amounts are in ${result.mixedCurrencies.join(' and ')} - the statement was not totalled or reconciled`);
+  }
+  if (result.summary) {
+    console.log(`Statement: ${describeReconciliation(result.summary.status, result.summary.difference)}`);
+    result.summary.checks
+      .filter(check => check.actual.minorUnits !== check.expected.minorUnits)
+      .forEach(check => console.warn(`  ${check.label}: ${formatMoney(check.actual, true)}, statement shows ${formatMoney(check.expected, true)}`));
+  }
+
+  const continuityIssues = result.continuity?.issues || [];
+  if (continuityIssues.length > 0) {
+    console.warn(`Running balance breaks in ${continuityIssues.length} place(s):`);
+    continuityIssues.forEach(issue => console.warn(`  ${issue.message}`));
+  }
+
+  const failureRate = result.totalLines > 0 ? result.failCount / result.totalLines * 100 : 0;
+  if (failureRate > options.maxFailureRate) {
+    console.error(`${failureRate.toFixed(1)}% of records failed to parse (limit ${options.maxFailureRate}%)`);
+    return EXIT_TOO_MANY_FAILURES;
+  }
+  return 0;
+}
+
+function main(args: string[]): number {
+  const [command, ...rest] = args;
+
+  if (!command || command === '-h' || command === '--help' || rest.includes('-h') || rest.includes('--help')) {
+    console.log(USAGE);
+    return command ? 0 : EXIT_USAGE;
+  }
+
+  try {
+    if (command !== 'convert') throw new UsageError(`Unknown command "${command}"`);
+    return convert(parseConvertArgs(rest));
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+    } else {
+      console.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    return EXIT_USAGE;
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
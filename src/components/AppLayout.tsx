@@ -1,15 +1,26 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Link } from 'react-router-dom';
 import DataInputSection from './DataInputSection';
 import ResultsTable from './ResultsTable';
 import StatsPanel from './StatsPanel';
 import FailedRecordsPanel from './FailedRecordsPanel';
+import ReversedRecordsPanel from './ReversedRecordsPanel';
 import ProcessingHistory, { HistoryEntry } from './ProcessingHistory';
 import CloudHistoryPanel from './CloudHistoryPanel';
-import { parseTransactions, ParseResult, ParsedTransaction } from '../utils/transactionParser';
-import { downloadExcel, downloadCSV, downloadFailedRecords } from '../utils/excelExport';
-import { saveBatchToDatabase, getSessionId, checkExistingTransactions } from '../utils/databaseService';
+import RawLineInspector from './RawLineInspector';
+import { addStatementChecks, buildParseResult, ParseResult, ParsedTransaction, LineSource } from '../utils/transactionParser';
+import { downloadExcel, downloadCSV, downloadFailedRecords, downloadWithdrawals, downloadCharges } from '../utils/excelExport';
+import { saveBatchToDatabase, getSessionId, checkExistingTransactions, fetchPaymentMethodRules } from '../utils/databaseService';
 import { fetchCustomerMappings, CustomerMapping } from '../utils/customerMappingService';
+import { BANK_FORMATS, BankFormat, BankId, DEFAULT_BANK_ID, getBankFormat, getBankFormats, setCustomBankFormats } from '../utils/banks';
+import { loadStatementTemplates, templateToBankFormat } from '../utils/statementTemplates';
+import { ExportDateFormat, getExportDateFormat, readPaymentDate, saveExportDateFormat } from '../utils/dateNormalization';
+import { parseMoney } from '../utils/money';
+import { ChargeAccounts, ChargeCategory, getChargeAccounts, saveChargeAccounts } from '../utils/chargeClassifier';
+import { startBackgroundParse } from '../utils/backgroundParser';
+import { markReversals } from '../utils/reversalDetection';
+import { getPaymentMethodRules, setPaymentMethodRules } from '../utils/paymentMethodRules';
+import { findUnmappedBranches, loadDepositAccountMappings, setDepositAccountMappings } from '../utils/depositAccountMapping';
 
 const AppLayout: React.FC = () => {
   const [isProcessing, setIsProcessing] = useState(false);
@@ -22,6 +33,27 @@ const AppLayout: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'local' | 'cloud'>('local');
   const [customerMappings, setCustomerMappings] = useState<CustomerMapping[]>([]);
   const [isFetchingMappings, setIsFetchingMappings] = useState(false);
+  const [bankFormats, setBankFormats] = useState<BankFormat[]>(() => getBankFormats());
+  const [dateFormat, setDateFormat] = useState<ExportDateFormat>(() => getExportDateFormat());
+  const [chargeAccounts, setChargeAccounts] = useState<ChargeAccounts>(() => getChargeAccounts());
+  const [inspectedTransaction, setInspectedTransaction] = useState<ParsedTransaction | null>(null);
+  const [parseProgress, setParseProgress] = useState<number | null>(null);
+  const parseJobRef = useRef<{ cancel: () => void } | null>(null);
+
+  useEffect(() => {
+    // Offer saved statement templates as additional bank types
+    setCustomBankFormats(loadStatementTemplates().map(templateToBankFormat));
+    setBankFormats(getBankFormats());
+    setDepositAccountMappings(loadDepositAccountMappings());
+  }, []);
+
+  useEffect(() => {
+    // Payment method rules are shared by everyone, so they come from the database
+    fetchPaymentMethodRules().then(({ rules, error }) => {
+      setPaymentMethodRules(rules);
+      if (error) console.error('[AppLayout] Using the default payment method rules:', error);
+    });
+  }, []);
 
   useEffect(() => {
     // Fetch customer mappings from Google Sheets on load
@@ -40,67 +72,40 @@ const AppLayout: React.FC = () => {
     loadMappings();
   }, []);
 
-  const handleDataSubmit = useCallback(async (data: string, bankType: 'NMB' | 'CRDB' = 'NMB') => {
-    setIsProcessing(true);
-    setSaveMessage(null);
-
-    // Simulate processing delay for large datasets
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    // Parse transactions with customer mappings
-    const result = parseTransactions(data, bankType, customerMappings);
+  // Report the outcome of a parse, publish the result and add it to the local history
+  const publishParseResult = useCallback((result: ParseResult, duplicateCount: number, dedupError: string | null) => {
+    // Pair reversals across the whole statement (chunks from the worker arrive unpaired)
+    markReversals(result.successful);
 
-    // Check for existing transactions immediately
-    console.log(`[AppLayout] Checking duplicates for ${result.successful.length} transactions. Bank: ${bankType}`);
-
-    if (result.successful.length > 0) {
-      const firstId = result.successful[0].invoiceNo;
-      console.log(`[AppLayout] Sample Invoice No to check: ${firstId}`);
-
-      // VALIDATION: Check if we have valid IDs to check
-      const missingIdCount = result.successful.filter(t => !t.invoiceNo).length;
-      if (missingIdCount > 0) {
-        setSaveMessage({
-          type: 'error',
-          text: `Warning: ${missingIdCount} transactions have no Invoice No. Deduplication may fail for these.`
-        });
-      }
+    // VALIDATION: Check if we have valid IDs to check
+    const missingIdCount = result.successful.filter(t => !t.invoiceNo).length;
+    if (missingIdCount > 0) {
+      setSaveMessage({
+        type: 'error',
+        text: `Warning: ${missingIdCount} transactions have no Invoice No. Deduplication may fail for these.`
+      });
     }
 
-    const { existingIds, error } = await checkExistingTransactions(result.successful, bankType);
-
-    if (error) {
-      setSaveMessage({ type: 'error', text: `Deduplication check failed: ${error}` });
+    if (dedupError) {
+      setSaveMessage({ type: 'error', text: `Deduplication check failed: ${dedupError}` });
     }
 
-    if (existingIds.size > 0) {
-      const originalCount = result.successful.length;
-      result.successful = result.successful.filter(t => !existingIds.has(t.invoiceNo));
-      console.log(`Filtered ${originalCount - result.successful.length} duplicates`);
-
-      // Update success count
-      result.successCount = result.successful.length;
-
-      // Notify user
-      const matchedCount = result.successful.filter(t => t.customer).length;
+    const matchedCount = result.successful.filter(t => t.customer).length;
+    if (duplicateCount > 0) {
       setSaveMessage({
         type: 'success',
-        text: `Parsed ${originalCount} transactions. Removed ${existingIds.size} duplicates. Matched ${matchedCount} customer names.`
+        text: `Parsed ${result.successful.length + duplicateCount} transactions. Removed ${duplicateCount} duplicates. Matched ${matchedCount} customer names.`
+      });
+    } else if (result.successful.length > 0) {
+      setSaveMessage({
+        type: 'success',
+        text: `Parsed ${result.successful.length} transactions. Matched ${matchedCount} customer names.`
       });
-    } else {
-      if (result.successful.length > 0) {
-        const matchedCount = result.successful.filter(t => t.customer).length;
-        const firstId = result.successful[0].invoiceNo;
-        console.log(`No existing IDs found. Checked ${result.successful.length} IDs. First was: ${firstId}`);
-        setSaveMessage({
-          type: 'success',
-          text: `Parsed ${result.successful.length} transactions. Matched ${matchedCount} customer names.`
-        });
-      }
     }
 
     setParseResult(result);
     setTransactions(result.successful);
+    setInspectedTransaction(null);
 
     // Add to local history (keep last 10)
     const newEntry: HistoryEntry = {
@@ -110,10 +115,102 @@ const AppLayout: React.FC = () => {
     };
     setHistory(prev => [newEntry, ...prev.slice(0, 9)]);
 
-    setIsProcessing(false);
     // Clear message after 5 seconds
     setTimeout(() => setSaveMessage(null), 5000);
-  }, [customerMappings]);
+  }, []);
+
+  // Remove already-saved transactions from a fresh parse result and publish it
+  const processParseResult = useCallback(async (result: ParseResult, bankType: BankId) => {
+    // Check for existing transactions immediately
+    console.log(`[AppLayout] Checking duplicates for ${result.successful.length} transactions. Bank: ${bankType}`);
+
+    const { existingIds, error } = await checkExistingTransactions(result.successful, bankType);
+
+    const originalCount = result.successful.length;
+    if (existingIds.size > 0) {
+      const bank = getBankFormat(bankType);
+      result.successful = result.successful.filter(t => !existingIds.has(bank.dedupKey(t)));
+      console.log(`Filtered ${originalCount - result.successful.length} duplicates`);
+
+      // Update success count
+      result.successCount = result.successful.length;
+    }
+
+    publishParseResult(result, originalCount - result.successful.length, error);
+  }, [publishParseResult]);
+
+  // Parse pasted or uploaded text in a background worker; rows are shown as each chunk finishes
+  const handleDataSubmit = useCallback((data: string, bankType: BankId = DEFAULT_BANK_ID, lineSources?: LineSource[]) => {
+    parseJobRef.current?.cancel();
+    setIsProcessing(true);
+    setSaveMessage(null);
+    setParseProgress(0);
+    setInspectedTransaction(null);
+
+    const result: ParseResult = { successful: [], failed: [], totalLines: 0, successCount: 0, failCount: 0, bankType };
+    let duplicateCount = 0;
+    setParseResult(null);
+    setTransactions([]);
+
+    parseJobRef.current = startBackgroundParse(
+      { rawData: data, bankType, customerMappings, lineSources, templates: loadStatementTemplates(), paymentMethodRules: getPaymentMethodRules(), depositAccountMappings: loadDepositAccountMappings() },
+      {
+        onChunk: chunk => {
+          result.successful.push(...chunk.successful);
+          result.failed.push(...chunk.failed);
+          duplicateCount += chunk.duplicateCount;
+          setTransactions([...result.successful]);
+          setParseProgress(chunk.progress);
+        },
+        onDone: done => {
+          parseJobRef.current = null;
+          publishParseResult({
+            ...result,
+            totalLines: done.totalLines,
+            successCount: result.successful.length,
+            failCount: result.failed.length,
+            openingBalance: done.openingBalance,
+            closingBalance: done.closingBalance,
+            continuity: done.continuity,
+            summary: done.summary,
+            mixedCurrencies: done.mixedCurrencies
+          }, duplicateCount, done.dedupError);
+          setParseProgress(null);
+          setIsProcessing(false);
+        },
+        onError: message => {
+          parseJobRef.current = null;
+          setSaveMessage({ type: 'error', text: `Parsing failed: ${message}` });
+          setParseProgress(null);
+          setIsProcessing(false);
+        }
+      }
+    );
+  }, [customerMappings, publishParseResult]);
+
+  // Stop a background parse and drop the rows it had delivered so far
+  const handleCancelParse = useCallback(() => {
+    parseJobRef.current?.cancel();
+    parseJobRef.current = null;
+    setTransactions([]);
+    setParseProgress(null);
+    setIsProcessing(false);
+    setSaveMessage({ type: 'error', text: 'Parsing cancelled.' });
+  }, []);
+
+  // Stop any running parse when the page is left
+  useEffect(() => () => parseJobRef.current?.cancel(), []);
+
+  // Rows already split into fields by the column mapping wizard (Excel/CSV uploads)
+  const handleTransactionsSubmit = useCallback(async (parsed: ParsedTransaction[], bankType: BankId) => {
+    setIsProcessing(true);
+    setSaveMessage(null);
+
+    const result = buildParseResult(parsed, bankType, customerMappings);
+    await processParseResult(addStatementChecks(result), bankType);
+
+    setIsProcessing(false);
+  }, [customerMappings, processParseResult]);
 
   const handleSaveToCloud = useCallback(async () => {
     if (!parseResult || parseResult.successCount === 0) {
@@ -121,11 +218,22 @@ const AppLayout: React.FC = () => {
       return;
     }
 
+    // Breaks in the running balance mean lines are missing, repeated or out of order
+    const continuityIssues = parseResult.continuity?.issues || [];
+    if (continuityIssues.length > 0 && !confirm(
+      `The running balance does not add up in ${continuityIssues.length} place(s):\n\n` +
+      continuityIssues.slice(0, 5).map(issue => `- ${issue.message}`).join('\n') +
+      `${continuityIssues.length > 5 ? `\n- ...and ${continuityIssues.length - 5} more` : ''}\n\nSave this batch anyway?`
+    )) {
+      return;
+    }
+
     setIsSaving(true);
     setSaveMessage(null);
 
     const batchName = `Batch ${new Date().toLocaleDateString()} ${new Date().toLocaleTimeString()}`;
-    const { batchId, error, skippedCount } = await saveBatchToDatabase(parseResult, batchName);
+    // Save the rows as shown in the table, including corrections made by hand
+    const { batchId, error, skippedCount } = await saveBatchToDatabase({ ...parseResult, successful: transactions, successCount: transactions.length }, batchName);
 
     if (error) {
       setSaveMessage({ type: 'error', text: `Failed to save: ${error}` });
@@ -144,27 +252,83 @@ const AppLayout: React.FC = () => {
 
     // Clear message after 5 seconds
     setTimeout(() => setSaveMessage(null), 5000);
-  }, [parseResult]);
+  }, [parseResult, transactions]);
 
   const handleEditTransaction = useCallback((index: number, field: keyof ParsedTransaction, value: string) => {
+    // Rows are exported by direction, so anything but Credit or Debit would silently drop the row
+    if (field === 'direction' && value !== 'Credit' && value !== 'Debit') return;
+
     setTransactions(prev => {
       const updated = [...prev];
-      updated[index] = { ...updated[index], [field]: value };
+      // Amounts are edited as text and read back into money in the row's currency
+      const fieldValue = field === 'amount' ? parseMoney(value, updated[index].amount.currency) : value;
+      updated[index] = {
+        ...updated[index],
+        [field]: fieldValue,
+        provenance: { ...updated[index].provenance, [field]: { rule: 'Edited by hand', confidence: 'high' } }
+      };
+      // A corrected date is read again; typing "05 Mar 2026" or "2026-03-05" clears an ambiguity warning
+      if (field === 'paymentDate') {
+        updated[index] = { ...updated[index], ...readPaymentDate(value) };
+      }
+      // A deposit account typed by hand no longer counts as an unmapped branch
+      if (field === 'depositToAccountName' && updated[index].depositAccountLookup) {
+        updated[index] = { ...updated[index], depositAccountLookup: { ...updated[index].depositAccountLookup, mapped: true } };
+      }
+      return updated;
+    });
+  }, []);
+
+  const handleCloseInspector = useCallback(() => {
+    setInspectedTransaction(null);
+  }, []);
+
+  const handleDateFormatChange = useCallback((format: ExportDateFormat) => {
+    setDateFormat(format);
+    saveExportDateFormat(format);
+  }, []);
+
+  const handleChargeAccountChange = useCallback((category: ChargeCategory, account: string) => {
+    setChargeAccounts(prev => {
+      const updated = { ...prev, [category]: account };
+      saveChargeAccounts(updated);
       return updated;
     });
   }, []);
 
+  // Payments from branches with no QuickBooks deposit account would be booked to an account QuickBooks does not have
+  const confirmUnmappedBranches = useCallback((): boolean => {
+    const unmapped = findUnmappedBranches(transactions.filter(t => t.direction === 'Credit' && !t.reversal));
+    return unmapped.length === 0 || confirm(
+      `${unmapped.length} branch(es) have no QuickBooks deposit account:\n\n` +
+      unmapped.slice(0, 5).map(b => `- ${b.branch}${b.name !== b.branch ? ` (${b.name})` : ''}: ${b.count} payment(s)`).join('\n') +
+      `${unmapped.length > 5 ? `\n- ...and ${unmapped.length - 5} more` : ''}\n\nMap them under Deposit Accounts, or export anyway?`
+    );
+  }, [transactions]);
+
   const handleDownloadExcel = useCallback(() => {
-    if (transactions.length > 0) {
-      downloadExcel(transactions, 'nmb_transactions');
+    if (transactions.length > 0 && confirmUnmappedBranches()) {
+      downloadExcel(transactions, 'nmb_transactions', dateFormat);
     }
-  }, [transactions]);
+  }, [transactions, dateFormat, confirmUnmappedBranches]);
 
   const handleDownloadCSV = useCallback(() => {
-    if (transactions.length > 0) {
-      downloadCSV(transactions, 'nmb_transactions');
+    if (transactions.length > 0 && confirmUnmappedBranches()) {
+      downloadCSV(transactions, 'nmb_transactions', dateFormat);
     }
-  }, [transactions]);
+  }, [transactions, dateFormat, confirmUnmappedBranches]);
+
+  const handleDownloadWithdrawals = useCallback(() => {
+    if (transactions.some(t => t.direction === 'Debit' && !t.chargeCategory && !t.reversal)) {
+      downloadWithdrawals(transactions, 'expenses_transfers', dateFormat);
+    }
+  }, [transactions, dateFormat]);
+
+  const handleDownloadCharges = useCallback(() => {
+    if (transactions.some(t => t.chargeCategory && !t.reversal)) {
+      downloadCharges(transactions, chargeAccounts, 'bank_charges', dateFormat);
+    }
+  }, [transactions, chargeAccounts, dateFormat]);
 
   const handleDownloadFailed = useCallback(() => {
     if (parseResult && parseResult.failed.length > 0) {
@@ -173,8 +337,8 @@ const AppLayout: React.FC = () => {
   }, [parseResult]);
 
   const handleRedownload = useCallback((entry: HistoryEntry) => {
-    downloadExcel(entry.result.successful, 'nmb_transactions_history');
-  }, []);
+    downloadExcel(entry.result.successful, 'nmb_transactions_history', dateFormat);
+  }, [dateFormat]);
 
   const handleClearHistory = useCallback(() => {
     setHistory([]);
@@ -214,6 +378,15 @@ const AppLayout: React.FC = () => {
                 <span className={`w-2 h-2 rounded-full ${customerMappings.length > 0 ? 'bg-emerald-400' : 'bg-red-400'}`}></span>
                 <span className="text-xs">Mappings: {customerMappings.length}</span>
               </Link>
+              <Link to="/templates" className="px-4 py-2 bg-white/10 rounded-lg text-white text-sm backdrop-blur-sm flex items-center gap-2 hover:bg-white/20 transition-colors">
+                <span className="text-xs">Templates: {bankFormats.length - BANK_FORMATS.length}</span>
+              </Link>
+              <Link to="/payment-methods" className="px-4 py-2 bg-white/10 rounded-lg text-white text-sm backdrop-blur-sm flex items-center gap-2 hover:bg-white/20 transition-colors">
+                <span className="text-xs">Payment Methods</span>
+              </Link>
+              <Link to="/deposit-accounts" className="px-4 py-2 bg-white/10 rounded-lg text-white text-sm backdrop-blur-sm flex items-center gap-2 hover:bg-white/20 transition-colors">
+                <span className="text-xs">Deposit Accounts</span>
+              </Link>
               <span className="px-4 py-2 bg-white/10 rounded-lg text-white text-sm font-medium backdrop-blur-sm">
                 v2.1
               </span>
@@ -280,7 +453,11 @@ const AppLayout: React.FC = () => {
           <div className="space-y-8">
             <DataInputSection
               onDataSubmit={handleDataSubmit}
+              onTransactionsSubmit={handleTransactionsSubmit}
               isProcessing={isProcessing}
+              parseProgress={parseProgress}
+              onCancelParse={handleCancelParse}
+              bankFormats={bankFormats}
             />
 
             {/* How It Works */}
@@ -455,13 +632,25 @@ const AppLayout: React.FC = () => {
 
             <StatsPanel
               result={parseResult}
+              dateFormat={dateFormat}
+              onDateFormatChange={handleDateFormatChange}
+              chargeAccounts={chargeAccounts}
+              onChargeAccountChange={handleChargeAccountChange}
               onDownloadExcel={handleDownloadExcel}
               onDownloadCSV={handleDownloadCSV}
+              onDownloadWithdrawals={handleDownloadWithdrawals}
+              onDownloadCharges={handleDownloadCharges}
               onDownloadFailed={handleDownloadFailed}
             />
 
             <FailedRecordsPanel
               failedRecords={parseResult?.failed || []}
+              onInspect={setInspectedTransaction}
+            />
+
+            <ReversedRecordsPanel
+              transactions={transactions}
+              onInspect={setInspectedTransaction}
             />
           </div>
         </div>
@@ -471,9 +660,15 @@ const AppLayout: React.FC = () => {
           <ResultsTable
             transactions={transactions}
             onEdit={handleEditTransaction}
+            onInspect={setInspectedTransaction}
           />
         </div>
 
+        <RawLineInspector
+          transaction={inspectedTransaction}
+          onClose={handleCloseInspector}
+        />
+
         {/* Expected Format Guide */}
         <div className="mt-8 bg-white rounded-2xl shadow-xl border border-gray-100 p-6">
           <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
@@ -8,6 +8,9 @@ import {
   convertToExportFormat 
 } from '../utils/databaseService';
 import { downloadExcel, downloadCSV } from '../utils/excelExport';
+import { getExportDateFormat } from '../utils/dateNormalization';
+import { moneyFromNumber } from '../utils/money';
+import ReconciliationBadge from './ReconciliationBadge';
 
 interface CloudHistoryPanelProps {
   onRefresh?: () => void;
@@ -72,9 +75,9 @@ const CloudHistoryPanel: React.FC<CloudHistoryPanelProps> = ({ onRefresh, refres
     const exportData = convertToExportFormat(transactions);
     
     if (format === 'excel') {
-      downloadExcel(exportData, `batch_${batch.batch_name || batch.id}`);
+      downloadExcel(exportData, `batch_${batch.batch_name || batch.id}`, getExportDateFormat());
     } else {
-      downloadCSV(exportData, `batch_${batch.batch_name || batch.id}`);
+      downloadCSV(exportData, `batch_${batch.batch_name || batch.id}`, getExportDateFormat());
     }
     
     setExporting(null);
@@ -295,6 +298,14 @@ const CloudHistoryPanel: React.FC<CloudHistoryPanelProps> = ({ onRefresh, refres
                               TZS {batch.total_amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}
                             </p>
                           )}
+                          {batch.reconciliation_status && (
+                            <div className="mt-1">
+                              <ReconciliationBadge
+                                status={batch.reconciliation_status}
+                                difference={batch.reconciliation_difference !== null ? moneyFromNumber(Number(batch.reconciliation_difference)) : undefined}
+                              />
+                            </div>
+                          )}
                         </div>
                       </div>
                       
@@ -0,0 +1,170 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { BankFormat } from '../utils/banks';
+import { ParsedTransaction } from '../utils/transactionParser';
+import {
+  StatementSheet,
+  ColumnMapping,
+  MappableField,
+  MAPPABLE_FIELDS,
+  findHeaderRow,
+  headerSignature,
+  guessColumnMapping,
+  getSavedColumnMapping,
+  saveColumnMapping,
+  mapRowsToTransactions
+} from '../utils/columnMapping';
+
+interface ColumnMappingWizardProps {
+  sheet: StatementSheet;
+  bank: BankFormat;
+  isProcessing: boolean;
+  onSubmit: (transactions: ParsedTransaction[]) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ sheet, bank, isProcessing, onSubmit, onCancel }) => {
+  const [headerRow, setHeaderRow] = useState(() => findHeaderRow(sheet.rows));
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [rememberMapping, setRememberMapping] = useState(true);
+
+  const headers = useMemo(() => sheet.rows[headerRow] || [], [sheet, headerRow]);
+  const dataRows = useMemo(() => sheet.rows.slice(headerRow + 1), [sheet, headerRow]);
+  const signature = headerSignature(headers);
+  const savedMapping = useMemo(() => getSavedColumnMapping(bank.id, signature), [bank.id, signature]);
+
+  // Start from the remembered mapping for this layout, otherwise from header name hints
+  useEffect(() => {
+    setMapping(savedMapping || guessColumnMapping(headers));
+  }, [savedMapping, headers]);
+
+  const preview = useMemo(
+    () => mapRowsToTransactions(dataRows.slice(0, PREVIEW_ROWS), mapping, bank.id),
+    [dataRows, mapping, bank.id]
+  );
+
+  const missingRequired = MAPPABLE_FIELDS.filter(f => f.required && mapping[f.key] === undefined);
+
+  const updateField = (field: MappableField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    if (rememberMapping) {
+      saveColumnMapping(bank.id, signature, mapping);
+    }
+    onSubmit(mapRowsToTransactions(dataRows, mapping, bank.id));
+  };
+
+  return (
+    <div className="border border-blue-200 rounded-xl overflow-hidden">
+      <div className="bg-blue-50 px-4 py-3 flex items-center justify-between">
+        <div>
+          <p className="font-medium text-gray-800">Map columns: {sheet.fileName}</p>
+          <p className="text-xs text-gray-500">{dataRows.length.toLocaleString()} data rows &middot; {bank.displayName}</p>
+        </div>
+        <button onClick={onCancel} className="text-sm text-red-600 hover:text-red-800 font-medium">
+          Cancel
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {savedMapping && (
+          <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-3 text-sm text-emerald-700">
+            Using the saved {bank.displayName} mapping for this column layout.
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <label className="text-sm font-medium text-gray-700">Header row:</label>
+          <select
+            value={headerRow}
+            onChange={(e) => setHeaderRow(Number(e.target.value))}
+            className="flex-1 border border-gray-300 rounded-lg px-2 py-1 text-sm"
+          >
+            {sheet.rows.slice(0, 20).map((row, i) => (
+              <option key={i} value={i}>
+                Row {i + 1}: {row.filter(c => c).join(' | ').substring(0, 80)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {MAPPABLE_FIELDS.map(field => (
+            <div key={field.key} className="flex items-center gap-2">
+              <label className="w-40 text-sm text-gray-700">
+                {field.label}{field.required && <span className="text-red-500"> *</span>}
+              </label>
+              <select
+                value={mapping[field.key] ?? ''}
+                onChange={(e) => updateField(field.key, e.target.value)}
+                className="flex-1 border border-gray-300 rounded-lg px-2 py-1 text-sm"
+              >
+                <option value="">&mdash; Not mapped &mdash;</option>
+                {headers.map((header, i) => (
+                  <option key={i} value={i}>{header || `Column ${i + 1}`}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        {/* Preview */}
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50">
+              <tr>
+                {MAPPABLE_FIELDS.filter(f => mapping[f.key] !== undefined).map(f => (
+                  <th key={f.key} className="px-2 py-1 text-left font-semibold text-gray-600">{f.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.map((t, i) => (
+                <tr key={i} className={t.isValid ? '' : 'bg-red-50'} title={t.errorMessage}>
+                  {MAPPABLE_FIELDS.filter(f => mapping[f.key] !== undefined).map(f => (
+                    <td key={f.key} className="px-2 py-1 text-gray-700 whitespace-nowrap">
+                      {String(dataRows[i][mapping[f.key] as number] || '') || '-'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={rememberMapping}
+              onChange={(e) => setRememberMapping(e.target.checked)}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded"
+            />
+            Remember this mapping for {bank.displayName}
+          </label>
+          <button
+            onClick={handleImport}
+            disabled={missingRequired.length > 0 || dataRows.length === 0 || isProcessing}
+            className="px-6 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            title={missingRequired.length > 0 ? `Map ${missingRequired.map(f => f.label).join(', ')} first` : undefined}
+          >
+            {isProcessing ? 'Processing...' : `Import ${dataRows.length.toLocaleString()} rows`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingWizard;
@@ -1,21 +1,48 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { BankFormat, BankId, DEFAULT_BANK_ID, getBankFormat } from '../utils/banks';
+import { DETECTION_SAMPLE_LINES, detectBankFormat } from '../utils/formatDetection';
+import { extractPdfLines } from '../utils/pdfExtractor';
+import { LineSource, ParsedTransaction } from '../utils/transactionParser';
+import { readStatementFile, StatementSheet } from '../utils/columnMapping';
+import ColumnMappingWizard from './ColumnMappingWizard';
 
 interface DataInputSectionProps {
-  onDataSubmit: (data: string, bankType: 'NMB' | 'CRDB') => void;
+  onDataSubmit: (data: string, bankType: BankId, lineSources?: LineSource[]) => void;
+  onTransactionsSubmit: (transactions: ParsedTransaction[], bankType: BankId) => void;
   isProcessing: boolean;
+  parseProgress: number | null;   // Percentage done while a background parse is running
+  onCancelParse: () => void;
+  bankFormats: BankFormat[];
 }
 
-const DataInputSection: React.FC<DataInputSectionProps> = ({ onDataSubmit, isProcessing }) => {
+// Pause in typing/pasting before the input is scored against the formats
+const DETECTION_DELAY_MS = 300;
+
+const DataInputSection: React.FC<DataInputSectionProps> = ({ onDataSubmit, onTransactionsSubmit, isProcessing, parseProgress, onCancelParse, bankFormats }) => {
   const [inputData, setInputData] = useState('');
-  const [bankType, setBankType] = useState<'NMB' | 'CRDB'>('NMB');
+  const [bankType, setBankType] = useState<BankId>(DEFAULT_BANK_ID);
   const [dragActive, setDragActive] = useState(false);
+  const [lineSources, setLineSources] = useState<LineSource[] | null>(null);
+  const [pdfStatus, setPdfStatus] = useState<{ type: 'loading' | 'success' | 'error'; text: string } | null>(null);
+  const [sheet, setSheet] = useState<StatementSheet | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const selectedBank = bankFormats.find(b => b.id === bankType) || getBankFormat(DEFAULT_BANK_ID);
+
+  // Score the input against every known format and preselect the best match, once typing pauses
+  const [detectionInput, setDetectionInput] = useState('');
+  useEffect(() => {
+    const timer = setTimeout(() => setDetectionInput(inputData), DETECTION_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [inputData]);
+  const detection = useMemo(() => detectBankFormat(detectionInput), [detectionInput]);
 
-  const sampleData = `14  Jan 2026	14  Jan 2026		101 - NMB Head Office - Cash Deposit Agency banking - 1401 12 19 37 agency @20710095898@TPS900 Trx ID PS2076699419  Ter ID 2075149572   Description 111111111!! From SAVCOM LIMITED COLLECTION ACC => MISHONI NDULENYA NZIGE	101AGD126014A7BL	5000		TZS 1169000.00
-15  Jan 2026	15  Jan 2026		102 - NMB Dar es Salaam - Cash Deposit Agency banking - 1402 15 22 41 agency @20810095899@TPS901 Trx ID PS2076699420  Ter ID 2075149573   Description 222222222!! From KARIAKOO TRADERS ACC => JOHN MWAMBA PETER	102AGD126015B8CM	7500		TZS 1176500.00
-15  Jan 2026	15  Jan 2026		103 - NMB Arusha Branch - Cash Deposit Agency banking - 1403 18 25 44 agency @20910095900@TPS902 Trx ID PS2076699421  Ter ID 2075149574   Description 333333333!! From KILIMANJARO COOP ACC => AMINA HASSAN JUMA	103AGD126015C9DN	12000		TZS 1188500.00
-16  Jan 2026	16  Jan 2026		104 - NMB Mwanza Office - Cash Deposit Agency banking - 1404 21 28 47 agency @21010095901@TPS903 Trx ID PS2076699422  Ter ID 2075149575   Description 444444444!! From LAKE ZONE SUPPLIERS ACC => PETER JOHN MAKUNDI	104AGD126016D0EP	3500		TZS 1192000.00
-16  Jan 2026	16  Jan 2026		105 - NMB Dodoma Central - Cash Deposit Agency banking - 1405 24 31 50 agency @21110095902@TPS904 Trx ID PS2076699423  Ter ID 2075149576   Description 555555555!! From CENTRAL MARKET TRADERS => FATUMA ALI MOHAMED	105AGD126016E1FQ	9000		TZS 1201000.00`;
+  useEffect(() => {
+    if (detection.bankId) {
+      setBankType(detection.bankId);
+    }
+  }, [detection.bankId]);
+
+  const confidencePercent = Math.round(detection.confidence * 100);
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
@@ -38,14 +65,65 @@ const DataInputSection: React.FC<DataInputSectionProps> = ({ onDataSubmit, isPro
   };
 
   const handleFile = (file: File) => {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.pdf') || file.type === 'application/pdf') {
+      handlePdfFile(file);
+      return;
+    }
+    if (name.endsWith('.xlsx') || name.endsWith('.xls') || name.endsWith('.csv')) {
+      handleSpreadsheetFile(file);
+      return;
+    }
+
     const reader = new FileReader();
     reader.onload = (e) => {
       const text = e.target?.result as string;
       setInputData(text);
+      setLineSources(null);
+      setPdfStatus(null);
     };
     reader.readAsText(file);
   };
 
+  // Extract text locally and rebuild tab-separated rows so the bank parsers see the statement columns
+  const handlePdfFile = async (file: File) => {
+    setPdfStatus({ type: 'loading', text: `Extracting text from ${file.name}...` });
+    try {
+      const lines = await extractPdfLines(file);
+      setInputData(lines.map(l => l.text).join('\n'));
+      setLineSources(lines.map(({ page, row }) => ({ page, row })));
+      const pageCount = lines.length > 0 ? lines[lines.length - 1].page : 0;
+      setPdfStatus({ type: 'success', text: `Extracted ${lines.length} rows from ${pageCount} page(s) of ${file.name}` });
+    } catch (error) {
+      console.error('[DataInputSection] PDF extraction failed:', error);
+      setPdfStatus({ type: 'error', text: `Could not read PDF: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  };
+
+  // Spreadsheets go through the column mapping wizard; a CSV that already matches a known line format is pasted as text
+  const handleSpreadsheetFile = async (file: File) => {
+    setPdfStatus(null);
+    setLineSources(null);
+    try {
+      if (file.name.toLowerCase().endsWith('.csv')) {
+        const text = await file.text();
+        if (detectBankFormat(text).confidence >= 0.5) {
+          setInputData(text);
+          return;
+        }
+      }
+      setSheet(await readStatementFile(file));
+    } catch (error) {
+      console.error('[DataInputSection] Spreadsheet import failed:', error);
+      setPdfStatus({ type: 'error', text: `Could not read ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  };
+
+  const handleMappedSubmit = (transactions: ParsedTransaction[]) => {
+    onTransactionsSubmit(transactions, selectedBank.id);
+    setSheet(null);
+  };
+
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       handleFile(e.target.files[0]);
@@ -53,16 +131,20 @@ const DataInputSection: React.FC<DataInputSectionProps> = ({ onDataSubmit, isPro
   };
 
   const loadSampleData = () => {
-    setInputData(sampleData);
+    setInputData(selectedBank.sampleData);
+    setLineSources(null);
+    setPdfStatus(null);
   };
 
   const clearData = () => {
     setInputData('');
+    setLineSources(null);
+    setPdfStatus(null);
   };
 
   const handleSubmit = () => {
     if (inputData.trim()) {
-      onDataSubmit(inputData, bankType);
+      onDataSubmit(inputData, selectedBank.id, lineSources || undefined);
     }
   };
 
@@ -79,39 +161,61 @@ const DataInputSection: React.FC<DataInputSectionProps> = ({ onDataSubmit, isPro
           </svg>
           Input Transaction Data
         </h2>
-        <p className="text-blue-100 text-sm mt-1">Paste your NMB bank statement data or upload a file</p>
+        <p className="text-blue-100 text-sm mt-1">Paste your bank statement data or upload a file</p>
       </div>
 
       <div className="bg-blue-50/50 px-6 py-3 border-b border-gray-100">
         <div className="flex items-center gap-4">
           <span className="text-sm font-medium text-gray-700">Bank Type:</span>
-          <div className="flex gap-4">
-            <label className="flex items-center gap-2 cursor-pointer">
-              <input
-                type="radio"
-                name="bankType"
-                value="NMB"
-                checked={bankType === 'NMB'}
-                onChange={() => setBankType('NMB')}
-                className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300"
-              />
-              <span className="text-sm text-gray-700">NMB</span>
-            </label>
-            <label className="flex items-center gap-2 cursor-pointer">
-              <input
-                type="radio"
-                name="bankType"
-                value="CRDB"
-                checked={bankType === 'CRDB'}
-                onChange={() => setBankType('CRDB')}
-                className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300"
-              />
-              <span className="text-sm text-gray-700">CRDB</span>
-            </label>
+          <div className="flex flex-wrap gap-4">
+            {bankFormats.map(bank => (
+              <label key={bank.id} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="bankType"
+                  value={bank.id}
+                  checked={bankType === bank.id}
+                  onChange={() => setBankType(bank.id)}
+                  className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                />
+                <span className="text-sm text-gray-700">{bank.displayName}</span>
+              </label>
+            ))}
           </div>
+          {detection.bankId && (
+            <span
+              className={`ml-auto text-xs px-2 py-1 rounded-full font-medium ${confidencePercent >= 80
+                ? 'bg-emerald-100 text-emerald-700'
+                : confidencePercent >= 50 ? 'bg-yellow-100 text-yellow-700' : 'bg-red-100 text-red-700'
+                }`}
+              title={`${detection.matches[0].lineCount} of ${detection.totalLines === DETECTION_SAMPLE_LINES ? 'the first ' : ''}${detection.totalLines} lines match the ${getBankFormat(detection.bankId).displayName} format`}
+            >
+              Detected: {getBankFormat(detection.bankId).displayName} ({confidencePercent}%)
+            </span>
+          )}
         </div>
+        {detection.bankId && bankType !== detection.bankId && (
+          <p className="text-xs text-yellow-700 mt-2">
+            The selected bank does not match the detected format ({getBankFormat(detection.bankId).displayName}).
+          </p>
+        )}
       </div>
 
+      {detection.isMixed && (
+        <div className="mx-6 mt-4 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+          <p className="text-sm text-yellow-800 flex items-start gap-2">
+            <svg className="w-5 h-5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+            </svg>
+            <span>
+              This data mixes statement formats:{' '}
+              {detection.matches.map(m => `${getBankFormat(m.bankId).displayName} (${m.lineCount} lines)`).join(', ')}.
+              Lines from other banks will not parse correctly &mdash; paste each bank's statement separately.
+            </span>
+          </p>
+        </div>
+      )}
+
       <div className="p-6 space-y-4">
         {/* Drag & Drop Zone */}
         <div
@@ -127,7 +231,7 @@ const DataInputSection: React.FC<DataInputSectionProps> = ({ onDataSubmit, isPro
           <input
             ref={fileInputRef}
             type="file"
-            accept=".txt,.csv,.tsv"
+            accept=".txt,.csv,.tsv,.pdf,.xlsx,.xls,.sta,.mt940,.xml,.ofx,.qfx"
             onChange={handleFileInput}
             className="hidden"
           />
@@ -151,19 +255,43 @@ const DataInputSection: React.FC<DataInputSectionProps> = ({ onDataSubmit, isPro
             >
               Browse Files
             </button>
-            <p className="text-xs text-gray-400">Supports .txt, .csv, .tsv files</p>
+            <p className="text-xs text-gray-400">Supports .txt, .csv, .tsv, .pdf, Excel, MT940 (.sta), camt.053 (.xml) and OFX/QFX files</p>
           </div>
         </div>
 
+        {pdfStatus && (
+          <div className={`rounded-lg p-3 text-sm ${pdfStatus.type === 'error'
+            ? 'bg-red-50 border border-red-200 text-red-700'
+            : pdfStatus.type === 'success' ? 'bg-emerald-50 border border-emerald-200 text-emerald-700' : 'bg-blue-50 border border-blue-200 text-blue-700'
+            }`}>
+            {pdfStatus.text}
+          </div>
+        )}
+
+        {sheet && (
+          <ColumnMappingWizard
+            key={`${sheet.fileName}-${selectedBank.id}`}
+            sheet={sheet}
+            bank={selectedBank}
+            isProcessing={isProcessing}
+            onSubmit={handleMappedSubmit}
+            onCancel={() => setSheet(null)}
+          />
+        )}
+
         {/* Text Area */}
-        <div className="space-y-2">
+        <div className={`space-y-2 ${sheet ? 'hidden' : ''}`}>
           <label className="block text-sm font-medium text-gray-700">
             Or paste your transaction data directly:
           </label>
           <textarea
             value={inputData}
-            onChange={(e) => setInputData(e.target.value)}
-            placeholder="Paste your NMB bank statement data here...&#10;&#10;Example format:&#10;14  Jan 2026	14  Jan 2026		101 - NMB Head Office - Cash Deposit Agency banking..."
+            onChange={(e) => {
+              setInputData(e.target.value);
+              // Manual edits shift lines, so PDF page/row provenance no longer applies
+              setLineSources(null);
+            }}
+            placeholder={`Paste your ${selectedBank.displayName} bank statement data here...\n\nExample format:\n${selectedBank.sampleData.split('\n')[0]}`}
             className="w-full h-64 p-4 border border-gray-300 rounded-xl font-mono text-sm resize-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all bg-gray-50"
             spellCheck={false}
           />
@@ -209,31 +337,51 @@ const DataInputSection: React.FC<DataInputSectionProps> = ({ onDataSubmit, isPro
         </div>
 
         {/* Action Button */}
-        <button
-          onClick={handleSubmit}
-          disabled={!inputData.trim() || isProcessing}
-          className={`w-full py-4 rounded-xl font-bold text-lg transition-all flex items-center justify-center gap-3 ${inputData.trim() && !isProcessing
-            ? 'bg-gradient-to-r from-emerald-500 to-emerald-600 text-white hover:from-emerald-600 hover:to-emerald-700 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5'
-            : 'bg-gray-200 text-gray-500 cursor-not-allowed'
-            }`}
-        >
-          {isProcessing ? (
-            <>
-              <svg className="animate-spin h-5 w-5" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-              </svg>
-              Processing...
-            </>
-          ) : (
-            <>
-              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-              </svg>
-              Parse Transactions
-            </>
-          )}
-        </button>
+        {!sheet && (
+          <button
+            onClick={handleSubmit}
+            disabled={!inputData.trim() || isProcessing}
+            className={`w-full py-4 rounded-xl font-bold text-lg transition-all flex items-center justify-center gap-3 ${inputData.trim() && !isProcessing
+              ? 'bg-gradient-to-r from-emerald-500 to-emerald-600 text-white hover:from-emerald-600 hover:to-emerald-700 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5'
+              : 'bg-gray-200 text-gray-500 cursor-not-allowed'
+              }`}
+          >
+            {isProcessing ? (
+              <>
+                <svg className="animate-spin h-5 w-5" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                {parseProgress !== null ? `Processing... ${parseProgress}%` : 'Processing...'}
+              </>
+            ) : (
+              <>
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                </svg>
+                Parse Transactions
+              </>
+            )}
+          </button>
+        )}
+
+        {/* Background parse progress */}
+        {parseProgress !== null && (
+          <div className="mt-3 flex items-center gap-3">
+            <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-emerald-500 transition-all duration-300"
+                style={{ width: `${parseProgress}%` }}
+              />
+            </div>
+            <button
+              onClick={onCancelParse}
+              className="px-3 py-1 text-sm text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
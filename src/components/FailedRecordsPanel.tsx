@@ -1,11 +1,13 @@
 import React, { useState } from 'react';
 import { ParsedTransaction } from '../utils/transactionParser';
+import { describeLineNumbers } from '../utils/recordAssembler';
 
 interface FailedRecordsPanelProps {
   failedRecords: ParsedTransaction[];
+  onInspect: (record: ParsedTransaction) => void;
 }
 
-const FailedRecordsPanel: React.FC<FailedRecordsPanelProps> = ({ failedRecords }) => {
+const FailedRecordsPanel: React.FC<FailedRecordsPanelProps> = ({ failedRecords, onInspect }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 5;
@@ -68,11 +70,19 @@ const FailedRecordsPanel: React.FC<FailedRecordsPanelProps> = ({ failedRecords }
             {paginatedRecords.map((record, index) => (
               <div 
                 key={index}
-                className="bg-gray-50 rounded-lg border border-gray-200 overflow-hidden"
+                onClick={() => onInspect(record)}
+                className="bg-gray-50 rounded-lg border border-gray-200 overflow-hidden cursor-pointer hover:border-red-300 transition-colors"
+                title="Click to inspect the raw line"
               >
                 <div className="px-4 py-2 bg-gray-100 border-b border-gray-200 flex items-center justify-between">
                   <span className="text-sm font-medium text-gray-700">
                     Record #{(currentPage - 1) * itemsPerPage + index + 1}
+                    {record.lineNumbers && (
+                      <span className="ml-2 text-xs text-gray-500">{describeLineNumbers(record.lineNumbers)}</span>
+                    )}
+                    {record.source && (
+                      <span className="ml-2 text-xs text-gray-500">(PDF page {record.source.page}, row {record.source.row})</span>
+                    )}
                   </span>
                   <span className="text-xs px-2 py-1 bg-red-100 text-red-700 rounded-full">
                     {record.errorMessage || 'Parse Error'}
@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo } from 'react';
+import { FieldProvenance, ParsedTransaction } from '../utils/transactionParser';
+import { describeLineNumbers } from '../utils/recordAssembler';
+import { extractMemberIdFromDescription } from '../utils/customerMappingService';
+import { formatMoney } from '../utils/money';
+import { fromText, splitBySpans } from '../utils/provenance';
+
+interface RawLineInspectorProps {
+  transaction: ParsedTransaction | null;
+  onClose: () => void;
+}
+
+type InspectedField = 'paymentDate' | 'invoiceNo' | 'memberId' | 'customer' | 'depositToAccountName' | 'amount';
+
+// Highlight colour and label for each extracted field (matching the template builder)
+const INSPECTED_FIELDS: { key: InspectedField; label: string; color: string }[] = [
+  { key: 'paymentDate', label: 'Date', color: 'bg-orange-200' },
+  { key: 'invoiceNo', label: 'Reference', color: 'bg-blue-200' },
+  { key: 'memberId', label: 'Member ID', color: 'bg-pink-200' },
+  { key: 'customer', label: 'Payer', color: 'bg-emerald-200' },
+  { key: 'depositToAccountName', label: 'Branch', color: 'bg-yellow-200' },
+  { key: 'amount', label: 'Amount', color: 'bg-purple-200' }
+];
+
+const CONFIDENCE_STYLES: Record<FieldProvenance['confidence'], string> = {
+  high: 'bg-emerald-100 text-emerald-700',
+  medium: 'bg-amber-100 text-amber-700',
+  low: 'bg-orange-100 text-orange-700'
+};
+
+const RawLineInspector: React.FC<RawLineInspectorProps> = ({ transaction, onClose }) => {
+  // Close on Escape
+  useEffect(() => {
+    if (!transaction) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [transaction, onClose]);
+
+  // Value and provenance of each inspected field; the member ID is not a transaction field,
+  // so it is located the same way the customer mapping lookup finds it
+  const fields = useMemo(() => {
+    if (!transaction) return [];
+    const memberId = extractMemberIdFromDescription(transaction.rawLine);
+    return INSPECTED_FIELDS.map(field => {
+      if (field.key === 'memberId') {
+        return {
+          ...field,
+          value: memberId,
+          provenance: fromText(transaction.rawLine.toUpperCase(), memberId, 'Member ID "MC<3 digits><3 letters>"', 'high')
+        };
+      }
+      const value = field.key === 'amount'
+        ? (transaction.amount.minorUnits !== 0 ? formatMoney(transaction.amount, true) : '')
+        : transaction[field.key];
+      return { ...field, value, provenance: transaction.provenance?.[field.key] };
+    });
+  }, [transaction]);
+
+  const segments = useMemo(() => {
+    if (!transaction) return [];
+    const spans = fields
+      .filter(f => f.value && f.provenance?.span)
+      .map(f => ({ key: f.key, span: f.provenance.span }));
+    return splitBySpans(transaction.rawLine, spans);
+  }, [transaction, fields]);
+
+  if (!transaction) {
+    return null;
+  }
+
+  const colorOf = (key: InspectedField) => INSPECTED_FIELDS.find(f => f.key === key)?.color;
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-50 w-full max-w-lg bg-white shadow-2xl border-l border-gray-200 flex flex-col">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-slate-800 to-slate-700 px-6 py-4 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold text-white">Raw Line Inspector</h2>
+          <p className="text-slate-300 text-sm">
+            {transaction.lineNumbers ? describeLineNumbers(transaction.lineNumbers) : 'How this line was read'}
+            {transaction.source && ` (PDF page ${transaction.source.page}, row ${transaction.source.row})`}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="w-8 h-8 rounded-lg bg-white/10 hover:bg-white/20 flex items-center justify-center transition-colors"
+          title="Close (Esc)"
+        >
+          <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        {transaction.errorMessage && (
+          <div className="bg-red-50 border border-red-200 rounded-lg px-4 py-3 text-sm text-red-700">
+            {transaction.errorMessage}
+          </div>
+        )}
+
+        {/* Highlighted raw line */}
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Raw line</h3>
+          <pre className="text-xs text-gray-700 font-mono whitespace-pre-wrap break-all bg-gray-50 p-3 rounded-lg border border-gray-200">
+            {segments.map((segment, i) => (
+              <span key={i} className={segment.key ? `${colorOf(segment.key)} rounded px-0.5` : ''}>
+                {segment.text}
+              </span>
+            ))}
+          </pre>
+        </div>
+
+        {/* Extracted fields */}
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Extracted fields</h3>
+          <div className="space-y-2">
+            {fields.map(field => (
+              <div key={field.key} className="flex items-start gap-3 text-sm">
+                <span className={`mt-1 w-3 h-3 rounded-sm flex-shrink-0 ${field.color}`}></span>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-gray-700">{field.label}</span>
+                    {field.value && field.provenance && (
+                      <span className={`text-xs px-2 py-0.5 rounded-full ${CONFIDENCE_STYLES[field.provenance.confidence]}`}>
+                        {field.provenance.confidence}
+                      </span>
+                    )}
+                  </div>
+                  {field.value ? (
+                    <>
+                      <p className="text-gray-800 font-mono text-xs break-all">{field.value}</p>
+                      {field.provenance && (
+                        <p className="text-gray-500 text-xs">
+                          {field.provenance.rule}
+                          {!field.provenance.span && ' (not taken from the line)'}
+                        </p>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-gray-400 text-xs italic">Not found</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Rules that did not match */}
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Rules tried without a match</h3>
+          {transaction.failedRules && transaction.failedRules.length > 0 ? (
+            <ul className="space-y-1">
+              {transaction.failedRules.map((failed, i) => (
+                <li key={i} className="text-xs text-gray-600 flex items-start gap-2">
+                  <span className="px-1.5 py-0.5 bg-gray-100 rounded font-mono text-gray-500">{failed.field}</span>
+                  <span>{failed.rule}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-gray-400 italic">No failed rules recorded for this line</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RawLineInspector;
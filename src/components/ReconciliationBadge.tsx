@@ -0,0 +1,22 @@
+import React from 'react';
+import { Money } from '../utils/money';
+import { describeReconciliation, ReconciliationStatus } from '../utils/statementSummary';
+
+interface ReconciliationBadgeProps {
+  status: ReconciliationStatus;
+  difference?: Money;
+}
+
+const BADGE_STYLES: Record<ReconciliationStatus, string> = {
+  reconciled: 'bg-emerald-100 text-emerald-700',
+  unreconciled: 'bg-red-100 text-red-700',
+  unchecked: 'bg-gray-100 text-gray-500'
+};
+
+const ReconciliationBadge: React.FC<ReconciliationBadgeProps> = ({ status, difference }) => (
+  <span className={`inline-flex items-center text-xs px-2 py-1 rounded-full font-medium ${BADGE_STYLES[status]}`}>
+    {describeReconciliation(status, difference)}
+  </span>
+);
+
+export default ReconciliationBadge;
@@ -1,12 +1,35 @@
 import React, { useState, useMemo } from 'react';
-import { ParsedTransaction } from '../utils/transactionParser';
+import { ParsedTransaction, TransactionDirection } from '../utils/transactionParser';
+import { formatMoney, isMoney } from '../utils/money';
+import { isLowConfidence } from '../utils/provenance';
+import { getChargeLabel } from '../utils/chargeClassifier';
 
 interface ResultsTableProps {
   transactions: ParsedTransaction[];
   onEdit: (index: number, field: keyof ParsedTransaction, value: string) => void;
+  onInspect: (transaction: ParsedTransaction) => void;
 }
 
-const ResultsTable: React.FC<ResultsTableProps> = ({ transactions, onEdit }) => {
+// Choices for the direction cell; any other value would drop the row from every export
+const DIRECTIONS: TransactionDirection[] = ['Credit', 'Debit'];
+
+// Cell text for a field; money is shown with thousands separators
+function cellText(transaction: ParsedTransaction, field: keyof ParsedTransaction): string {
+  const value = transaction[field];
+  return isMoney(value) ? formatMoney(value) : String(value || '');
+}
+
+// Tooltip naming the rule that produced a cell, plus any date warning
+function cellTitle(transaction: ParsedTransaction, field: keyof ParsedTransaction): string | undefined {
+  const provenance = transaction.provenance?.[field];
+  const parts = [
+    provenance ? `${provenance.rule} (${provenance.confidence} confidence)` : '',
+    field === 'paymentDate' ? transaction.dateWarning || '' : ''
+  ].filter(part => part);
+  return parts.length > 0 ? parts.join('\n') : undefined;
+}
+
+const ResultsTable: React.FC<ResultsTableProps> = ({ transactions, onEdit, onInspect }) => {
   const [currentPage, setCurrentPage] = useState(1);
   const [searchTerm, setSearchTerm] = useState('');
   const [sortField, setSortField] = useState<keyof ParsedTransaction>('paymentDate');
@@ -26,14 +49,20 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ transactions, onEdit }) =>
         t.invoiceNo.toLowerCase().includes(term) ||
         t.customer.toLowerCase().includes(term) ||
         t.depositToAccountName.toLowerCase().includes(term) ||
-        t.amount.toLowerCase().includes(term)
+        formatMoney(t.amount).includes(term)
       );
     }
 
-    // Sort
+    // Sort (payment dates by calendar date rather than statement text)
+    const sortValue = (t: ParsedTransaction) =>
+      String((sortField === 'paymentDate' ? t.isoDate : undefined) || t[sortField] || '').toLowerCase();
     result.sort((a, b) => {
-      const aVal = String(a[sortField] || '').toLowerCase();
-      const bVal = String(b[sortField] || '').toLowerCase();
+      if (sortField === 'amount') {
+        const difference = a.amount.minorUnits - b.amount.minorUnits;
+        return sortDirection === 'asc' ? difference : -difference;
+      }
+      const aVal = sortValue(a);
+      const bVal = sortValue(b);
       const comparison = aVal.localeCompare(bVal);
       return sortDirection === 'asc' ? comparison : -comparison;
     });
@@ -41,6 +70,11 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ transactions, onEdit }) =>
     return result;
   }, [transactions, searchTerm, sortField, sortDirection]);
 
+  const dateWarningCount = transactions.filter(t => t.dateWarning).length;
+  const lowConfidenceCount = transactions.filter(t =>
+    Object.values(t.provenance || {}).some(p => p?.confidence === 'low')
+  ).length;
+
   const totalPages = Math.ceil(filteredAndSorted.length / itemsPerPage);
   const paginatedData = filteredAndSorted.slice(
     (currentPage - 1) * itemsPerPage,
@@ -61,11 +95,11 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ transactions, onEdit }) =>
     setEditValue(currentValue);
   };
 
-  const saveEdit = () => {
+  const saveEdit = (value: string = editValue) => {
     if (editingCell) {
       const actualIndex = transactions.findIndex(t => t === paginatedData[editingCell.row]);
       if (actualIndex !== -1) {
-        onEdit(actualIndex, editingCell.field, editValue);
+        onEdit(actualIndex, editingCell.field, value);
       }
     }
     setEditingCell(null);
@@ -85,6 +119,7 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ transactions, onEdit }) =>
     { key: 'invoiceNo', label: 'Invoice No', width: 'min-w-[150px]' },
     { key: 'journalNo', label: 'Journal No', width: 'min-w-[120px]' },
     { key: 'amount', label: 'Amount', width: 'min-w-[120px]' },
+    { key: 'direction', label: 'Direction', width: 'min-w-[100px]' },
     { key: 'referenceMemo', label: 'Reference Memo', width: 'min-w-[200px]' },
     { key: 'countryCode', label: 'Country Code', width: 'min-w-[120px]' },
     { key: 'exchangeRate', label: 'Exchange Rate', width: 'min-w-[120px]' },
@@ -118,6 +153,16 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ transactions, onEdit }) =>
             </h2>
             <p className="text-blue-100 text-sm mt-1">
               {filteredAndSorted.length} of {transactions.length} transactions
+              {dateWarningCount > 0 && (
+                <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-amber-400 text-amber-950 font-medium">
+                  {dateWarningCount} dates need checking
+                </span>
+              )}
+              {lowConfidenceCount > 0 && (
+                <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-orange-300 text-orange-950 font-medium">
+                  {lowConfidenceCount} rows with low-confidence fields
+                </span>
+              )}
             </p>
           </div>
 
@@ -161,6 +206,7 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ transactions, onEdit }) =>
                   </div>
                 </th>
               ))}
+              <th className="px-4 py-3 w-12"><span className="sr-only">Inspect</span></th>
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-100">
@@ -169,15 +215,35 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ transactions, onEdit }) =>
                 {columns.map(col => (
                   <td
                     key={col.key}
-                    className={`px-4 py-3 text-sm ${col.width}`}
-                    onDoubleClick={() => startEdit(rowIndex, col.key, String(transaction[col.key] || ''))}
+                    className={`px-4 py-3 text-sm ${col.width} ${
+                      isLowConfidence(transaction, col.key)
+                        ? 'bg-orange-50 border-b-2 border-dashed border-orange-300'
+                        : col.key === 'paymentDate' && transaction.dateWarning ? 'bg-amber-50' : ''
+                    }`}
+                    title={cellTitle(transaction, col.key)}
+                    onDoubleClick={() => startEdit(rowIndex, col.key, cellText(transaction, col.key))}
                   >
-                    {editingCell?.row === rowIndex && editingCell?.field === col.key ? (
+                    {editingCell?.row === rowIndex && editingCell?.field === col.key && col.key === 'direction' ? (
+                      <select
+                        value={editValue}
+                        onChange={(e) => saveEdit(e.target.value)}
+                        onBlur={cancelEdit}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Escape') cancelEdit();
+                        }}
+                        className="w-full px-2 py-1 border border-blue-500 rounded focus:outline-none focus:ring-2 focus:ring-blue-300"
+                        autoFocus
+                      >
+                        {DIRECTIONS.map(direction => (
+                          <option key={direction} value={direction}>{direction}</option>
+                        ))}
+                      </select>
+                    ) : editingCell?.row === rowIndex && editingCell?.field === col.key ? (
                       <input
                         type="text"
                         value={editValue}
                         onChange={(e) => setEditValue(e.target.value)}
-                        onBlur={saveEdit}
+                        onBlur={() => saveEdit()}
                         onKeyDown={(e) => {
                           if (e.key === 'Enter') saveEdit();
                           if (e.key === 'Escape') cancelEdit();
@@ -187,14 +253,34 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ transactions, onEdit }) =>
                       />
                     ) : (
                       <span className={`${col.key === 'amount'
-                          ? 'font-mono font-medium text-gray-800'
-                          : 'text-gray-700'
+                          ? `font-mono font-medium ${transaction.direction === 'Debit' ? 'text-red-600' : 'text-gray-800'}`
+                          : col.key === 'direction'
+                            ? `text-xs px-2 py-1 rounded-full font-medium ${transaction.reversal ? 'bg-gray-200 text-gray-600 line-through' : transaction.chargeCategory ? 'bg-purple-100 text-purple-700' : transaction.direction === 'Debit' ? 'bg-red-100 text-red-700' : 'bg-emerald-100 text-emerald-700'}`
+                            : col.key === 'paymentDate' && transaction.dateWarning
+                              ? 'text-amber-700 font-medium'
+                              : 'text-gray-700'
                         }`}>
-                        {col.key === 'amount' && transaction.amount ? `TZS ${transaction.amount}` : transaction[col.key] || '-'}
+                        {col.key === 'amount'
+                          ? formatMoney(transaction.amount, true)
+                          : col.key === 'direction' && transaction.chargeCategory
+                            ? getChargeLabel(transaction.chargeCategory)
+                            : cellText(transaction, col.key) || '-'}
                       </span>
                     )}
                   </td>
                 ))}
+                {/* Inspector opens from its own button; a double-click on a cell edits it */}
+                <td className="px-4 py-3 w-12">
+                  <button
+                    onClick={() => onInspect(transaction)}
+                    title="Inspect the raw line"
+                    className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                    </svg>
+                  </button>
+                </td>
               </tr>
             ))}
           </tbody>
@@ -257,7 +343,7 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ transactions, onEdit }) =>
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
           </svg>
-          Double-click any cell to edit its value
+          Double-click any cell to edit its value; use the magnifier at the end of a row to inspect its raw line
         </p>
       </div>
     </div>
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { ParsedTransaction } from '../utils/transactionParser';
+import { describeLineNumbers } from '../utils/recordAssembler';
+import { groupReversalPairs } from '../utils/reversalDetection';
+import { formatMoney } from '../utils/money';
+
+interface ReversedRecordsPanelProps {
+  transactions: ParsedTransaction[];
+  onInspect: (record: ParsedTransaction) => void;
+}
+
+const ReversedRecordsPanel: React.FC<ReversedRecordsPanelProps> = ({ transactions, onInspect }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [currentPage, setCurrentPage] = useState(1);
+  const itemsPerPage = 5;
+
+  const pairs = groupReversalPairs(transactions);
+  if (pairs.length === 0) {
+    return null;
+  }
+
+  const totalPages = Math.ceil(pairs.length / itemsPerPage);
+  const paginatedPairs = pairs.slice(
+    (currentPage - 1) * itemsPerPage,
+    currentPage * itemsPerPage
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-200 overflow-hidden">
+      {/* Header */}
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full bg-gradient-to-r from-slate-600 to-slate-500 px-6 py-4 flex items-center justify-between hover:from-slate-700 hover:to-slate-600 transition-colors"
+      >
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-white/20 rounded-lg flex items-center justify-center">
+            <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+            </svg>
+          </div>
+          <div className="text-left">
+            <h2 className="text-lg font-bold text-white">Reversed</h2>
+            <p className="text-slate-200 text-sm">{pairs.length} transaction{pairs.length === 1 ? ' was' : 's were'} reversed and left out of the export</p>
+          </div>
+        </div>
+        <svg
+          className={`w-6 h-6 text-white transition-transform duration-300 ${isExpanded ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {/* Content */}
+      {isExpanded && (
+        <div className="p-6 space-y-4">
+          {/* Reversal Pairs */}
+          <div className="space-y-3">
+            {paginatedPairs.map(([original, reversal]) => (
+              <div key={original.reversal.pairId} className="bg-gray-50 rounded-lg border border-gray-200 overflow-hidden">
+                <div className="px-4 py-2 bg-gray-100 border-b border-gray-200 flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-700">
+                    {formatMoney(original.amount, true)}
+                  </span>
+                  <span className="text-xs px-2 py-1 bg-slate-200 text-slate-700 rounded-full font-mono">
+                    Ref {original.reversal.reference}
+                  </span>
+                </div>
+                {[original, reversal].map(record => (
+                  <div
+                    key={record.reversal.role}
+                    onClick={() => onInspect(record)}
+                    className="px-4 py-3 cursor-pointer hover:bg-white transition-colors"
+                    title="Click to inspect the raw line"
+                  >
+                    <div className="flex items-center gap-2 mb-1 text-xs text-gray-500">
+                      <span className={`px-2 py-0.5 rounded-full font-medium ${record.direction === 'Debit' ? 'bg-red-100 text-red-700' : 'bg-emerald-100 text-emerald-700'}`}>
+                        {record.reversal.role === 'original' ? 'Original' : 'Reversal'} ({record.direction})
+                      </span>
+                      {record.paymentDate}
+                      {record.lineNumbers && <span>{describeLineNumbers(record.lineNumbers)}</span>}
+                    </div>
+                    <pre className="text-xs text-gray-600 font-mono whitespace-pre-wrap break-all bg-white p-2 rounded border border-gray-200 max-h-24 overflow-y-auto">
+                      {record.rawLine}
+                    </pre>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between pt-4 border-t border-gray-200">
+              <p className="text-sm text-gray-600">
+                Showing {((currentPage - 1) * itemsPerPage) + 1} to {Math.min(currentPage * itemsPerPage, pairs.length)} of {pairs.length}
+              </p>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+                  disabled={currentPage === 1}
+                  className="px-3 py-1 text-sm bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-gray-600">
+                  Page {currentPage} of {totalPages}
+                </span>
+                <button
+                  onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
+                  disabled={currentPage === totalPages}
+                  className="px-3 py-1 text-sm bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReversedRecordsPanel;
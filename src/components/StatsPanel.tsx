@@ -1,17 +1,55 @@
 import React from 'react';
-import { ParseResult } from '../utils/transactionParser';
+import { Link } from 'react-router-dom';
+import { ParseResult, splitByDirection } from '../utils/transactionParser';
+import { EXPORT_DATE_FORMATS, ExportDateFormat } from '../utils/dateNormalization';
+import { currenciesOf, formatMoney, Money, sumMoney } from '../utils/money';
+import { ContinuityIssueKind } from '../utils/balanceContinuity';
+import ReconciliationBadge from './ReconciliationBadge';
+import { CHARGE_CATEGORIES, ChargeAccounts, ChargeCategory } from '../utils/chargeClassifier';
+import { findUnmappedBranches } from '../utils/depositAccountMapping';
 
 interface StatsPanelProps {
   result: ParseResult | null;
+  dateFormat: ExportDateFormat;
+  onDateFormatChange: (format: ExportDateFormat) => void;
+  chargeAccounts: ChargeAccounts;
+  onChargeAccountChange: (category: ChargeCategory, account: string) => void;
   onDownloadExcel: () => void;
   onDownloadCSV: () => void;
+  onDownloadWithdrawals: () => void;
+  onDownloadCharges: () => void;
   onDownloadFailed: () => void;
 }
 
+const CONTINUITY_LABELS: Record<ContinuityIssueKind, string> = {
+  'missing': 'Missing lines',
+  'duplicate': 'Duplicate',
+  'out-of-order': 'Out of order'
+};
+
+// Export button grid for 3, 4 or 5 buttons
+const EXPORT_GRID_COLUMNS: Record<number, string> = {
+  3: 'sm:grid-cols-3',
+  4: 'sm:grid-cols-2 lg:grid-cols-4',
+  5: 'sm:grid-cols-2 lg:grid-cols-5'
+};
+
+// Total with its currency, or the currencies involved when the amounts cannot be added up
+function formatTotal(values: Money[]): string {
+  const currencies = currenciesOf(values);
+  return currencies.length > 1 ? `Mixed ${currencies.join(' / ')}` : formatMoney(sumMoney(values), true);
+}
+
 const StatsPanel: React.FC<StatsPanelProps> = ({ 
   result, 
+  dateFormat,
+  onDateFormatChange,
+  chargeAccounts,
+  onChargeAccountChange,
   onDownloadExcel, 
   onDownloadCSV, 
+  onDownloadWithdrawals,
+  onDownloadCharges,
   onDownloadFailed 
 }) => {
   if (!result) {
@@ -22,11 +60,15 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
     ? Math.round((result.successCount / result.totalLines) * 100) 
     : 0;
 
-  // Calculate total amount
-  const totalAmount = result.successful.reduce((sum, t) => {
-    const amount = parseFloat(t.amount.replace(/,/g, '')) || 0;
-    return sum + amount;
-  }, 0);
+  // Calculate total amount received (credits) and paid out (debits)
+  // Reversed pairs cancel out and are left out of every export
+  const { credits, debits } = splitByDirection(result.successful.filter(t => !t.reversal));
+  const totalAmount = formatTotal(credits.map(t => t.amount));
+  const totalDebits = formatTotal(debits.map(t => t.amount));
+  const charges = debits.filter(t => t.chargeCategory);
+  const withdrawalCount = debits.length - charges.length;
+  const exportButtonCount = 3 + (withdrawalCount > 0 ? 1 : 0) + (charges.length > 0 ? 1 : 0);
+  const unmappedBranches = findUnmappedBranches(credits);
 
   return (
     <div className="space-y-6">
@@ -103,12 +145,17 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
       </div>
 
       {/* Total Amount Card */}
-      {totalAmount > 0 && (
+      {credits.some(t => t.amount.minorUnits > 0) && (
         <div className="bg-gradient-to-r from-emerald-500 to-teal-600 rounded-xl shadow-lg p-6 text-white">
           <div className="flex items-center justify-between">
             <div>
               <p className="text-emerald-100 font-medium">Total Transaction Amount</p>
-              <p className="text-4xl font-bold mt-2">TZS {totalAmount.toLocaleString('en-US', { minimumFractionDigits: 2 })}</p>
+              <p className="text-4xl font-bold mt-2">{totalAmount}</p>
+              {debits.length > 0 && (
+                <p className="text-emerald-100 text-sm mt-2">
+                  {debits.length} withdrawals ({totalDebits}) exported separately
+                </p>
+              )}
             </div>
             <div className="w-16 h-16 bg-white/20 rounded-xl flex items-center justify-center">
               <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -119,18 +166,155 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
         </div>
       )}
 
+      {/* Statement Summary, reconciled against the statement's own balances and totals */}
+      {result.summary && (
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-5">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <p className="text-sm font-semibold text-gray-700">Statement Summary</p>
+              {result.summary.periodStart && (
+                <p className="text-xs text-gray-400 mt-0.5">
+                  {result.summary.periodStart === result.summary.periodEnd
+                    ? result.summary.periodStart
+                    : `${result.summary.periodStart} to ${result.summary.periodEnd}`}
+                </p>
+              )}
+            </div>
+            <ReconciliationBadge status={result.summary.status} difference={result.summary.difference} />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Opening Balance', value: result.summary.openingBalance },
+              { label: 'Total Credits', value: result.summary.totalCredits },
+              { label: 'Total Debits', value: result.summary.totalDebits },
+              { label: 'Closing Balance', value: result.summary.closingBalance }
+            ].map(({ label, value }) => (
+              <div key={label}>
+                <p className="text-sm font-medium text-gray-500">{label}</p>
+                <p className="text-lg font-bold text-gray-800 mt-1">{value ? formatMoney(value, true) : '-'}</p>
+              </div>
+            ))}
+          </div>
+          {result.summary.checks.length > 0 && (
+            <ul className="mt-4 pt-3 border-t border-gray-100 space-y-1 text-xs">
+              {result.summary.checks.map(check => {
+                const matches = check.actual.minorUnits === check.expected.minorUnits;
+                return (
+                  <li key={check.label} className={matches ? 'text-gray-500' : 'text-red-600'}>
+                    {matches ? '✓' : '✗'} {check.label}: {formatMoney(check.actual, true)}
+                    {!matches && ` (statement shows ${formatMoney(check.expected, true)})`}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Mixed currencies: the statement could not be totalled or reconciled */}
+      {result.mixedCurrencies && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl px-5 py-3 text-sm text-amber-700">
+          Amounts are in {result.mixedCurrencies.join(' and ')} - the statement summary and running balance check were skipped
+        </div>
+      )}
+
+      {/* Running Balance Check (statements whose rows carry a balance) */}
+      {result.continuity && result.continuity.checkedCount > 1 && (
+        result.continuity.issues.length === 0 ? (
+          <div className="bg-emerald-50 border border-emerald-200 rounded-xl px-5 py-3 text-sm text-emerald-700">
+            Running balance adds up across all {result.continuity.checkedCount} rows
+          </div>
+        ) : (
+          <div className="bg-amber-50 border border-amber-200 rounded-xl p-5">
+            <p className="text-sm font-semibold text-amber-800">
+              Running balance breaks in {result.continuity.issues.length} place{result.continuity.issues.length === 1 ? '' : 's'}
+            </p>
+            <ul className="mt-2 space-y-1 text-xs text-amber-700 max-h-40 overflow-y-auto">
+              {result.continuity.issues.map((issue, i) => (
+                <li key={i}>
+                  <span className="font-medium">{CONTINUITY_LABELS[issue.kind]}:</span> {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )
+      )}
+
+      {/* Bank Charges, each category booked to its own QuickBooks expense account */}
+      {charges.length > 0 && (
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-5">
+          <p className="text-sm font-semibold text-gray-700 mb-3">Bank Charges, Levies and Taxes</p>
+          <div className="space-y-2">
+            {CHARGE_CATEGORIES.map(category => {
+              const rows = charges.filter(t => t.chargeCategory === category.value);
+              return (
+                <div key={category.value} className="grid grid-cols-1 sm:grid-cols-3 items-center gap-2 text-sm">
+                  <span className="text-gray-600">
+                    {category.label} <span className="text-gray-400">({rows.length})</span>
+                  </span>
+                  <span className="font-mono text-gray-800">{formatTotal(rows.map(t => t.amount))}</span>
+                  <input
+                    type="text"
+                    value={chargeAccounts[category.value]}
+                    onChange={(e) => onChargeAccountChange(category.value, e.target.value)}
+                    title="QuickBooks expense account"
+                    className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Unmapped Branches (payments whose Deposit To account QuickBooks will not recognise) */}
+      {unmappedBranches.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-5">
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm font-semibold text-amber-800">
+              {unmappedBranches.length} branch{unmappedBranches.length === 1 ? ' has' : 'es have'} no QuickBooks deposit account
+            </p>
+            <Link to="/deposit-accounts" className="text-xs font-medium text-amber-800 underline hover:text-amber-900">
+              Map deposit accounts
+            </Link>
+          </div>
+          <ul className="mt-2 space-y-1 text-xs text-amber-700 max-h-40 overflow-y-auto">
+            {unmappedBranches.map(branch => (
+              <li key={branch.branch}>
+                <span className="font-medium">{branch.branch}</span>
+                {branch.name !== branch.branch && ` ${branch.name}`} - {branch.count} payment{branch.count === 1 ? '' : 's'}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Export Buttons */}
       <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
-        <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
-          <svg className="w-5 h-5 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-          </svg>
-          Export Options
-        </h3>
-        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+            <svg className="w-5 h-5 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
+            Export Options
+          </h3>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Date format
+            <select
+              value={dateFormat}
+              onChange={(e) => onDateFormatChange(e.target.value as ExportDateFormat)}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {EXPORT_DATE_FORMATS.map(f => (
+                <option key={f.value} value={f.value}>{f.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className={`grid grid-cols-1 gap-4 ${EXPORT_GRID_COLUMNS[exportButtonCount]}`}>
           <button
             onClick={onDownloadExcel}
-            disabled={result.successCount === 0}
+            disabled={credits.length === 0}
             className="flex items-center justify-center gap-3 px-6 py-4 bg-gradient-to-r from-emerald-500 to-emerald-600 text-white rounded-xl font-semibold hover:from-emerald-600 hover:to-emerald-700 transition-all shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed transform hover:-translate-y-0.5"
           >
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -141,7 +325,7 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
           
           <button
             onClick={onDownloadCSV}
-            disabled={result.successCount === 0}
+            disabled={credits.length === 0}
             className="flex items-center justify-center gap-3 px-6 py-4 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-xl font-semibold hover:from-blue-600 hover:to-blue-700 transition-all shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed transform hover:-translate-y-0.5"
           >
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -149,6 +333,30 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
             </svg>
             Download CSV
           </button>
+
+          {withdrawalCount > 0 && (
+            <button
+              onClick={onDownloadWithdrawals}
+              className="flex items-center justify-center gap-3 px-6 py-4 bg-gradient-to-r from-red-500 to-red-600 text-white rounded-xl font-semibold hover:from-red-600 hover:to-red-700 transition-all shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2z" />
+              </svg>
+              Expenses/Transfers ({withdrawalCount})
+            </button>
+          )}
+
+          {charges.length > 0 && (
+            <button
+              onClick={onDownloadCharges}
+              className="flex items-center justify-center gap-3 px-6 py-4 bg-gradient-to-r from-purple-500 to-purple-600 text-white rounded-xl font-semibold hover:from-purple-600 hover:to-purple-700 transition-all shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 14l6-6m-5.5.5h.01m4.99 5h.01M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16l3.5-2 3.5 2 3.5-2 3.5 2z" />
+              </svg>
+              Bank Charges ({charges.length})
+            </button>
+          )}
           
           <button
             onClick={onDownloadFailed}
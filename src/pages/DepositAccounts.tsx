@@ -0,0 +1,268 @@
+import React, { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import {
+    DepositAccountMapping,
+    branchKey,
+    createDepositAccountMapping,
+    findDepositAccount,
+    generateDepositAccountMappingsCSV,
+    loadDepositAccountMappings,
+    saveDepositAccountMappings,
+    setDepositAccountMappings
+} from '../utils/depositAccountMapping';
+import { BankId, DEFAULT_BANK_ID, getBankFormats } from '../utils/banks';
+import { parseTransactions } from '../utils/transactionParser';
+import { downloadFile } from '../utils/excelExport';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ArrowLeft, Landmark, Search, CheckCircle, AlertCircle, Plus, Trash2, Download } from "lucide-react";
+
+const DepositAccounts: React.FC = () => {
+    const [mappings, setMappings] = useState<DepositAccountMapping[]>(() => loadDepositAccountMappings());
+    const [scanBank, setScanBank] = useState<BankId>(DEFAULT_BANK_ID);
+    const [scanData, setScanData] = useState('');
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const bankFormats = getBankFormats();
+
+    const updateMapping = (id: string, changes: Partial<DepositAccountMapping>) => {
+        setMappings(prev => prev.map(mapping => mapping.id === id ? { ...mapping, ...changes } : mapping));
+        setMessage(null);
+    };
+
+    const addMapping = (bankId: BankId, branch: string = '') => {
+        setMappings(prev => [...prev, createDepositAccountMapping(bankId, branch)]);
+        setMessage(null);
+    };
+
+    const removeMapping = (id: string) => {
+        setMappings(prev => prev.filter(mapping => mapping.id !== id));
+        setMessage(null);
+    };
+
+    const handleSave = () => {
+        const incomplete = mappings.find(mapping => !mapping.branch.trim() || !mapping.account.trim());
+        if (incomplete) {
+            setMessage({ type: 'error', text: 'Every mapping needs a branch code or collection account and a QuickBooks account.' });
+            return;
+        }
+        const seen = new Set<string>();
+        const repeated = mappings.find(mapping => {
+            const key = `${mapping.bankId}::${mapping.branch.trim().toLowerCase()}`;
+            if (seen.has(key)) return true;
+            seen.add(key);
+            return false;
+        });
+        if (repeated) {
+            setMessage({ type: 'error', text: `${repeated.bankId} ${repeated.branch} is mapped more than once.` });
+            return;
+        }
+
+        const trimmed = mappings.map(mapping => ({ ...mapping, branch: mapping.branch.trim(), account: mapping.account.trim() }));
+        saveDepositAccountMappings(trimmed);
+        setDepositAccountMappings(trimmed);
+        setMappings(trimmed);
+        setMessage({ type: 'success', text: `Saved ${trimmed.length} mappings. They apply to every statement parsed from now on.` });
+    };
+
+    // Branches and collection accounts found in a pasted statement, with how many rows each has
+    const scannedBranches = useMemo(() => {
+        if (!scanData.trim()) return [];
+        const branches = new Map<string, { branch: string; name: string; count: number }>();
+        for (const transaction of parseTransactions(scanData, scanBank).successful) {
+            if (transaction.direction !== 'Credit') continue;
+            const branch = branchKey(transaction);
+            const entry = branches.get(branch) || { branch, name: transaction.depositAccountLookup?.mapped ? '' : transaction.depositToAccountName, count: 0 };
+            entry.count++;
+            branches.set(branch, entry);
+        }
+        return [...branches.values()].sort((a, b) => b.count - a.count);
+    }, [scanData, scanBank]);
+
+    return (
+        <div className="min-h-screen bg-gray-50 p-8">
+            <div className="max-w-7xl mx-auto space-y-8">
+
+                {/* Header */}
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <Link to="/" className="p-2 hover:bg-white rounded-full transition-colors">
+                            <ArrowLeft className="w-6 h-6 text-gray-600" />
+                        </Link>
+                        <div>
+                            <h1 className="text-3xl font-bold text-gray-900">Deposit Accounts</h1>
+                            <p className="text-gray-500">Book each branch's payments to the right QuickBooks "Deposit To" account</p>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+
+                    {/* Mappings */}
+                    <Card className="lg:col-span-2">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Landmark className="w-5 h-5 text-blue-600" />
+                                Branch Mappings
+                            </CardTitle>
+                            <CardDescription>
+                                Map a branch code (e.g. 101 for "101 - NMB Head Office") or, for statements without branches,
+                                the collection account the parser shows (e.g. CRDB Collection AC). Payments from unmapped
+                                branches are flagged before export.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            {mappings.length === 0 ? (
+                                <p className="text-center text-sm text-gray-500 py-8">
+                                    No mappings yet. Add one, or paste a statement on the right to find its branches.
+                                </p>
+                            ) : (
+                                <div className="rounded-md border overflow-x-auto">
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead className="w-40">Bank</TableHead>
+                                                <TableHead>Branch Code / Collection Account</TableHead>
+                                                <TableHead>QuickBooks Deposit To Account</TableHead>
+                                                <TableHead></TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {mappings.map(mapping => (
+                                                <TableRow key={mapping.id}>
+                                                    <TableCell>
+                                                        <Select value={mapping.bankId} onValueChange={(value) => updateMapping(mapping.id, { bankId: value })}>
+                                                            <SelectTrigger>
+                                                                <SelectValue />
+                                                            </SelectTrigger>
+                                                            <SelectContent>
+                                                                {bankFormats.map(bank => (
+                                                                    <SelectItem key={bank.id} value={bank.id}>{bank.displayName}</SelectItem>
+                                                                ))}
+                                                            </SelectContent>
+                                                        </Select>
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <Input
+                                                            value={mapping.branch}
+                                                            onChange={(e) => updateMapping(mapping.id, { branch: e.target.value })}
+                                                            placeholder="e.g. 101"
+                                                            className="font-mono text-xs"
+                                                        />
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <Input
+                                                            value={mapping.account}
+                                                            onChange={(e) => updateMapping(mapping.id, { account: e.target.value })}
+                                                            placeholder="e.g. NMB Collections - Head Office"
+                                                        />
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <Button variant="ghost" size="sm" onClick={() => removeMapping(mapping.id)}>
+                                                            <Trash2 className="w-4 h-4 text-gray-500" />
+                                                        </Button>
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </div>
+                            )}
+
+                            {message && (
+                                <Alert variant={message.type === 'error' ? "destructive" : "default"} className={message.type === 'success' ? "border-green-500 bg-green-50" : ""}>
+                                    {message.type === 'success' ? <CheckCircle className="h-4 w-4 text-green-600" /> : <AlertCircle className="h-4 w-4" />}
+                                    <AlertTitle>{message.type === 'success' ? 'Success' : 'Error'}</AlertTitle>
+                                    <AlertDescription className={message.type === 'success' ? "text-green-700" : ""}>
+                                        {message.text}
+                                    </AlertDescription>
+                                </Alert>
+                            )}
+
+                            <div className="flex gap-3">
+                                <Button variant="outline" onClick={() => addMapping(DEFAULT_BANK_ID)}>
+                                    <Plus className="w-4 h-4 mr-2" />
+                                    Add Mapping
+                                </Button>
+                                <Button className="flex-1 bg-blue-600 hover:bg-blue-700" onClick={handleSave}>
+                                    Save Mappings
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    onClick={() => downloadFile(generateDepositAccountMappingsCSV(loadDepositAccountMappings()), 'text/csv;charset=utf-8;', 'deposit_accounts', 'csv')}
+                                    title="Saved mappings as CSV, for the command-line converter's --deposit-accounts"
+                                >
+                                    <Download className="w-4 h-4 mr-2" />
+                                    Download CSV
+                                </Button>
+                            </div>
+                        </CardContent>
+                    </Card>
+
+                    {/* Find Branches */}
+                    <Card className="lg:col-span-1 h-fit">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Search className="w-5 h-5 text-purple-600" />
+                                Find Branches
+                            </CardTitle>
+                            <CardDescription>
+                                Paste a statement to list the branches its payments came from.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <Select value={scanBank} onValueChange={setScanBank}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {bankFormats.map(bank => (
+                                        <SelectItem key={bank.id} value={bank.id}>{bank.displayName}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <Textarea
+                                placeholder="Paste statement lines here..."
+                                className="min-h-[160px] font-mono text-xs"
+                                value={scanData}
+                                onChange={(e) => setScanData(e.target.value)}
+                                spellCheck={false}
+                            />
+                            {scannedBranches.length > 0 && (
+                                <div className="space-y-2">
+                                    {scannedBranches.map(branch => {
+                                        const account = findDepositAccount(scanBank, branch.branch, mappings);
+                                        return (
+                                            <div key={branch.branch} className="border rounded-lg p-3 flex items-center justify-between gap-2">
+                                                <div className="min-w-0">
+                                                    <p className="font-medium text-gray-800 font-mono text-sm">{branch.branch}</p>
+                                                    <p className="text-xs text-gray-500 truncate">
+                                                        {branch.name && branch.name !== branch.branch ? `${branch.name} · ` : ''}
+                                                        {branch.count} payment{branch.count === 1 ? '' : 's'}
+                                                    </p>
+                                                    {account && <p className="text-xs text-emerald-600 truncate">→ {account}</p>}
+                                                </div>
+                                                {!account && (
+                                                    <Button variant="outline" size="sm" onClick={() => addMapping(scanBank, branch.branch)}>
+                                                        <Plus className="w-4 h-4 mr-1" />
+                                                        Map
+                                                    </Button>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DepositAccounts;
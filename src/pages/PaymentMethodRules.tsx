@@ -0,0 +1,277 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import {
+    DEFAULT_PAYMENT_METHOD,
+    PaymentMethodRule,
+    countRuleMatches,
+    createPaymentMethodRule,
+    setPaymentMethodRules
+} from '../utils/paymentMethodRules';
+import { fetchPaymentMethodRules, savePaymentMethodRules } from '../utils/databaseService';
+import { isValidPattern } from '../utils/statementTemplates';
+import { BankId, DEFAULT_BANK_ID, getBankFormats } from '../utils/banks';
+import { parseTransactions } from '../utils/transactionParser';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Loader2, ArrowLeft, ListOrdered, Eye, CheckCircle, AlertCircle, Plus, Trash2 } from "lucide-react";
+
+// Select value for a rule that applies to every bank (Select items cannot have an empty value)
+const ALL_BANKS = 'all';
+
+const PaymentMethodRules: React.FC = () => {
+    const [rules, setRules] = useState<PaymentMethodRule[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [version, setVersion] = useState<string | null>(null);   // Saved set the rules were loaded from
+    const [previewBank, setPreviewBank] = useState<BankId>(DEFAULT_BANK_ID);
+    const [previewData, setPreviewData] = useState('');
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const bankFormats = getBankFormats();
+
+    useEffect(() => {
+        fetchPaymentMethodRules().then(({ rules: saved, version: savedVersion, error }) => {
+            setRules(saved);
+            setVersion(savedVersion);
+            if (error) setMessage({ type: 'error', text: `Could not load the saved rules, showing the defaults: ${error}` });
+            setIsLoading(false);
+        });
+    }, []);
+
+    const updateRule = (id: string, changes: Partial<PaymentMethodRule>) => {
+        setRules(prev => prev.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+        setMessage(null);
+    };
+
+    const addRule = () => {
+        const lastPriority = Math.max(0, ...rules.map(rule => rule.priority));
+        setRules(prev => [...prev, createPaymentMethodRule(lastPriority + 10)]);
+    };
+
+    const removeRule = (id: string) => {
+        setRules(prev => prev.filter(rule => rule.id !== id));
+        setMessage(null);
+    };
+
+    const handleSave = async () => {
+        const incomplete = rules.find(rule => !rule.pattern.trim() || !rule.method.trim());
+        if (incomplete) {
+            setMessage({ type: 'error', text: 'Every rule needs a pattern and a QuickBooks payment method.' });
+            return;
+        }
+        const invalid = rules.find(rule => !isValidPattern(rule.pattern));
+        if (invalid) {
+            setMessage({ type: 'error', text: `"${invalid.pattern}" is not a valid regular expression.` });
+            return;
+        }
+
+        const ordered = [...rules].sort((a, b) => a.priority - b.priority);
+        setIsSaving(true);
+        const { success, version: savedVersion, error } = await savePaymentMethodRules(ordered, version);
+        setIsSaving(false);
+        if (!success) {
+            setMessage({ type: 'error', text: `Save failed: ${error}` });
+            return;
+        }
+
+        setPaymentMethodRules(ordered);
+        setRules(ordered);
+        setVersion(savedVersion);
+        setMessage({ type: 'success', text: `Saved ${ordered.length} rules. They apply to every statement parsed from now on, for everyone.` });
+    };
+
+    // Preview: parse the pasted statement and count the rows each (unsaved) rule would set
+    const previewRows = useMemo(
+        () => previewData.trim() ? parseTransactions(previewData, previewBank).successful : [],
+        [previewData, previewBank]
+    );
+    const matchCounts = useMemo(
+        () => countRuleMatches(previewRows, previewBank, rules.filter(rule => isValidPattern(rule.pattern))),
+        [previewRows, previewBank, rules]
+    );
+    const unmatchedCount = previewRows.length - Object.values(matchCounts).reduce((sum, count) => sum + count, 0);
+
+    return (
+        <div className="min-h-screen bg-gray-50 p-8">
+            <div className="max-w-7xl mx-auto space-y-8">
+
+                {/* Header */}
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <Link to="/" className="p-2 hover:bg-white rounded-full transition-colors">
+                            <ArrowLeft className="w-6 h-6 text-gray-600" />
+                        </Link>
+                        <div>
+                            <h1 className="text-3xl font-bold text-gray-900">Payment Method Rules</h1>
+                            <p className="text-gray-500">Choose the QuickBooks payment method from the statement narration</p>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+
+                    {/* Rules */}
+                    <Card className="lg:col-span-2">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <ListOrdered className="w-5 h-5 text-blue-600" />
+                                Rules
+                            </CardTitle>
+                            <CardDescription>
+                                Each pattern is a case-insensitive regular expression matched against the raw statement line.
+                                Rules are tried from the lowest priority number up and the first match sets the payment method;
+                                rows no rule matches become {DEFAULT_PAYMENT_METHOD}, except mobile money statements, which stay Mobile Money.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            {isLoading ? (
+                                <p className="flex items-center justify-center gap-2 text-sm text-gray-500 py-8">
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                    Loading rules...
+                                </p>
+                            ) : (
+                                <div className="rounded-md border overflow-x-auto">
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead className="w-24">Priority</TableHead>
+                                                <TableHead>Pattern</TableHead>
+                                                <TableHead>QuickBooks Method</TableHead>
+                                                <TableHead className="w-40">Bank</TableHead>
+                                                <TableHead className="w-20 text-right">Rows</TableHead>
+                                                <TableHead></TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {rules.map(rule => (
+                                                <TableRow key={rule.id}>
+                                                    <TableCell>
+                                                        <Input
+                                                            type="number"
+                                                            value={rule.priority}
+                                                            onChange={(e) => updateRule(rule.id, { priority: parseInt(e.target.value, 10) || 0 })}
+                                                        />
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <Input
+                                                            value={rule.pattern}
+                                                            onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                                                            placeholder="e.g. agency"
+                                                            className={`font-mono text-xs ${isValidPattern(rule.pattern) ? '' : 'border-red-500'}`}
+                                                        />
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <Input
+                                                            value={rule.method}
+                                                            onChange={(e) => updateRule(rule.id, { method: e.target.value })}
+                                                            placeholder="e.g. Agency Deposit"
+                                                        />
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <Select
+                                                            value={rule.bankId || ALL_BANKS}
+                                                            onValueChange={(value) => updateRule(rule.id, { bankId: value === ALL_BANKS ? undefined : value })}
+                                                        >
+                                                            <SelectTrigger>
+                                                                <SelectValue />
+                                                            </SelectTrigger>
+                                                            <SelectContent>
+                                                                <SelectItem value={ALL_BANKS}>All banks</SelectItem>
+                                                                {bankFormats.map(bank => (
+                                                                    <SelectItem key={bank.id} value={bank.id}>{bank.displayName}</SelectItem>
+                                                                ))}
+                                                            </SelectContent>
+                                                        </Select>
+                                                    </TableCell>
+                                                    <TableCell className="text-right font-mono text-sm">
+                                                        {previewRows.length > 0 ? matchCounts[rule.id] || 0 : '-'}
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <Button variant="ghost" size="sm" onClick={() => removeRule(rule.id)}>
+                                                            <Trash2 className="w-4 h-4 text-gray-500" />
+                                                        </Button>
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </div>
+                            )}
+
+                            {message && (
+                                <Alert variant={message.type === 'error' ? "destructive" : "default"} className={message.type === 'success' ? "border-green-500 bg-green-50" : ""}>
+                                    {message.type === 'success' ? <CheckCircle className="h-4 w-4 text-green-600" /> : <AlertCircle className="h-4 w-4" />}
+                                    <AlertTitle>{message.type === 'success' ? 'Success' : 'Error'}</AlertTitle>
+                                    <AlertDescription className={message.type === 'success' ? "text-green-700" : ""}>
+                                        {message.text}
+                                    </AlertDescription>
+                                </Alert>
+                            )}
+
+                            <div className="flex gap-3">
+                                <Button variant="outline" onClick={addRule}>
+                                    <Plus className="w-4 h-4 mr-2" />
+                                    Add Rule
+                                </Button>
+                                <Button className="flex-1 bg-blue-600 hover:bg-blue-700" onClick={handleSave} disabled={isLoading || isSaving}>
+                                    {isSaving ? (
+                                        <>
+                                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                            Saving...
+                                        </>
+                                    ) : (
+                                        'Save Rules'
+                                    )}
+                                </Button>
+                            </div>
+                        </CardContent>
+                    </Card>
+
+                    {/* Preview */}
+                    <Card className="lg:col-span-1 h-fit">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Eye className="w-5 h-5 text-purple-600" />
+                                Preview
+                            </CardTitle>
+                            <CardDescription>
+                                Paste a statement to see how many rows each rule would change before saving.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <Select value={previewBank} onValueChange={setPreviewBank}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {bankFormats.map(bank => (
+                                        <SelectItem key={bank.id} value={bank.id}>{bank.displayName}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <Textarea
+                                placeholder="Paste statement lines here..."
+                                className="min-h-[200px] font-mono text-xs"
+                                value={previewData}
+                                onChange={(e) => setPreviewData(e.target.value)}
+                                spellCheck={false}
+                            />
+                            {previewRows.length > 0 && (
+                                <p className="text-sm text-gray-600">
+                                    {previewRows.length - unmatchedCount} of {previewRows.length} rows match a rule;
+                                    {' '}{unmatchedCount} keep the default.
+                                </p>
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PaymentMethodRules;
@@ -0,0 +1,339 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import {
+    TEMPLATE_FIELDS,
+    TemplateField,
+    TemplateFieldKey,
+    StatementTemplate,
+    buildFieldPattern,
+    extractTemplateField,
+    isValidPattern,
+    loadStatementTemplates,
+    saveStatementTemplate,
+    deleteStatementTemplate
+} from '../utils/statementTemplates';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ArrowLeft, FileCode, Layers, CheckCircle, AlertCircle, Trash2 } from "lucide-react";
+
+// Highlight colors for each assignable field
+const FIELD_COLORS: Record<TemplateFieldKey, string> = {
+    paymentDate: 'bg-orange-200',
+    invoiceNo: 'bg-blue-200',
+    amount: 'bg-purple-200',
+    customer: 'bg-emerald-200',
+    depositToAccountName: 'bg-yellow-200'
+};
+
+interface AssignedField extends TemplateField {
+    start: number;
+    end: number;
+}
+
+const StatementTemplates: React.FC = () => {
+    const [templates, setTemplates] = useState<StatementTemplate[]>(() => loadStatementTemplates());
+    const [name, setName] = useState('');
+    const [sampleLine, setSampleLine] = useState('');
+    const [fields, setFields] = useState<AssignedField[]>([]);
+    const [testData, setTestData] = useState('');
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const sampleRef = useRef<HTMLTextAreaElement>(null);
+
+    const assignSelection = (key: TemplateFieldKey) => {
+        const textarea = sampleRef.current;
+        if (!textarea || textarea.selectionStart === textarea.selectionEnd) {
+            setMessage({ type: 'error', text: 'Highlight part of the sample line first, then choose the field it belongs to.' });
+            return;
+        }
+
+        const start = textarea.selectionStart;
+        const end = textarea.selectionEnd;
+        const pattern = buildFieldPattern(sampleLine, start, end, key);
+        setFields(prev => [...prev.filter(f => f.key !== key), { key, pattern, start, end }]);
+        setMessage(null);
+    };
+
+    const updatePattern = (key: TemplateFieldKey, pattern: string) => {
+        setFields(prev => prev.map(f => f.key === key ? { ...f, pattern } : f));
+    };
+
+    const removeField = (key: TemplateFieldKey) => {
+        setFields(prev => prev.filter(f => f.key !== key));
+    };
+
+    const handleSampleChange = (value: string) => {
+        // Spans no longer line up once the sample changes
+        setSampleLine(value.split('\n')[0]);
+        setFields([]);
+    };
+
+    const handleSave = () => {
+        if (!name.trim()) {
+            setMessage({ type: 'error', text: 'Give the template a name (it is shown as the bank type).' });
+            return;
+        }
+        if (!fields.some(f => f.key === 'amount')) {
+            setMessage({ type: 'error', text: 'Assign at least the Amount field before saving.' });
+            return;
+        }
+        const invalid = fields.find(f => !isValidPattern(f.pattern));
+        if (invalid) {
+            setMessage({ type: 'error', text: `The ${invalid.key} pattern is not a valid regular expression.` });
+            return;
+        }
+
+        const updated = saveStatementTemplate({
+            name: name.trim(),
+            sampleLine,
+            fields: fields.map(({ key, pattern }) => ({ key, pattern }))
+        });
+        setTemplates(updated);
+        setMessage({ type: 'success', text: `Template "${name.trim()}" saved. It is now available as a bank type on the parser page.` });
+        setName('');
+        setSampleLine('');
+        setFields([]);
+        setTestData('');
+    };
+
+    const handleDelete = (id: string) => {
+        setTemplates(deleteStatementTemplate(id));
+    };
+
+    // Sample line split into plain and highlighted segments
+    const segments = useMemo(() => {
+        const sorted = [...fields].sort((a, b) => a.start - b.start);
+        const result: { text: string; key?: TemplateFieldKey }[] = [];
+        let cursor = 0;
+        for (const field of sorted) {
+            if (field.start < cursor) continue;
+            result.push({ text: sampleLine.slice(cursor, field.start) });
+            result.push({ text: sampleLine.slice(field.start, field.end), key: field.key });
+            cursor = field.end;
+        }
+        result.push({ text: sampleLine.slice(cursor) });
+        return result.filter(s => s.text);
+    }, [fields, sampleLine]);
+
+    const testLines = [sampleLine, ...testData.split('\n')].filter(l => l.trim());
+
+    return (
+        <div className="min-h-screen bg-gray-50 p-8">
+            <div className="max-w-7xl mx-auto space-y-8">
+
+                {/* Header */}
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <Link to="/" className="p-2 hover:bg-white rounded-full transition-colors">
+                            <ArrowLeft className="w-6 h-6 text-gray-600" />
+                        </Link>
+                        <div>
+                            <h1 className="text-3xl font-bold text-gray-900">Statement Templates</h1>
+                            <p className="text-gray-500">Teach the parser a new statement layout from a sample line</p>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+
+                    {/* Builder */}
+                    <Card className="lg:col-span-2">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <FileCode className="w-5 h-5 text-blue-600" />
+                                Template Builder
+                            </CardTitle>
+                            <CardDescription>
+                                Paste one raw statement line, highlight a value and click the field it belongs to.
+                                Adjust the generated pattern if needed and check the preview before saving.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium text-gray-700">Template name</label>
+                                <Input
+                                    placeholder="e.g. Equity Bank"
+                                    value={name}
+                                    onChange={(e) => setName(e.target.value)}
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium text-gray-700">Sample line</label>
+                                <Textarea
+                                    ref={sampleRef}
+                                    placeholder="Paste a single statement line here..."
+                                    className="min-h-[100px] font-mono text-sm"
+                                    value={sampleLine}
+                                    onChange={(e) => handleSampleChange(e.target.value)}
+                                    spellCheck={false}
+                                />
+                            </div>
+
+                            <div className="flex flex-wrap gap-2">
+                                {TEMPLATE_FIELDS.map(field => (
+                                    <Button
+                                        key={field.key}
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => assignSelection(field.key)}
+                                        disabled={!sampleLine}
+                                    >
+                                        <span className={`w-3 h-3 rounded-sm mr-2 ${FIELD_COLORS[field.key]}`}></span>
+                                        Selection is {field.label}
+                                    </Button>
+                                ))}
+                            </div>
+
+                            {sampleLine && (
+                                <pre className="text-xs text-gray-700 font-mono whitespace-pre-wrap break-all bg-gray-50 p-3 rounded border border-gray-200">
+                                    {segments.map((segment, i) => (
+                                        <span key={i} className={segment.key ? `${FIELD_COLORS[segment.key]} rounded px-0.5` : ''}>
+                                            {segment.text}
+                                        </span>
+                                    ))}
+                                </pre>
+                            )}
+
+                            {fields.length > 0 && (
+                                <div className="rounded-md border">
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Field</TableHead>
+                                                <TableHead>Pattern</TableHead>
+                                                <TableHead>Extracted</TableHead>
+                                                <TableHead></TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {fields.map(field => (
+                                                <TableRow key={field.key}>
+                                                    <TableCell className="font-medium whitespace-nowrap">
+                                                        <span className={`inline-block w-3 h-3 rounded-sm mr-2 ${FIELD_COLORS[field.key]}`}></span>
+                                                        {TEMPLATE_FIELDS.find(f => f.key === field.key)?.label}
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <Input
+                                                            value={field.pattern}
+                                                            onChange={(e) => updatePattern(field.key, e.target.value)}
+                                                            className={`font-mono text-xs ${isValidPattern(field.pattern) ? '' : 'border-red-500'}`}
+                                                        />
+                                                    </TableCell>
+                                                    <TableCell className="font-mono text-xs">
+                                                        {extractTemplateField(sampleLine, field.pattern) || <span className="text-red-600">no match</span>}
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <Button variant="ghost" size="sm" onClick={() => removeField(field.key)}>
+                                                            <Trash2 className="w-4 h-4 text-gray-500" />
+                                                        </Button>
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </div>
+                            )}
+
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium text-gray-700">More lines to test (optional)</label>
+                                <Textarea
+                                    placeholder="Paste a few more statement lines to check the template..."
+                                    className="min-h-[80px] font-mono text-sm"
+                                    value={testData}
+                                    onChange={(e) => setTestData(e.target.value)}
+                                    spellCheck={false}
+                                />
+                            </div>
+
+                            {fields.length > 0 && testLines.length > 0 && (
+                                <div className="rounded-md border overflow-x-auto">
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                {fields.map(field => (
+                                                    <TableHead key={field.key}>{TEMPLATE_FIELDS.find(f => f.key === field.key)?.label}</TableHead>
+                                                ))}
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {testLines.map((line, i) => (
+                                                <TableRow key={i}>
+                                                    {fields.map(field => (
+                                                        <TableCell key={field.key} className="font-mono text-xs">
+                                                            {extractTemplateField(line, field.pattern) || '-'}
+                                                        </TableCell>
+                                                    ))}
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </div>
+                            )}
+
+                            {message && (
+                                <Alert variant={message.type === 'error' ? "destructive" : "default"} className={message.type === 'success' ? "border-green-500 bg-green-50" : ""}>
+                                    {message.type === 'success' ? <CheckCircle className="h-4 w-4 text-green-600" /> : <AlertCircle className="h-4 w-4" />}
+                                    <AlertTitle>{message.type === 'success' ? 'Success' : 'Error'}</AlertTitle>
+                                    <AlertDescription className={message.type === 'success' ? "text-green-700" : ""}>
+                                        {message.text}
+                                    </AlertDescription>
+                                </Alert>
+                            )}
+
+                            <Button
+                                className="w-full bg-blue-600 hover:bg-blue-700"
+                                onClick={handleSave}
+                                disabled={!sampleLine || fields.length === 0}
+                            >
+                                Save Template
+                            </Button>
+                        </CardContent>
+                    </Card>
+
+                    {/* Saved Templates */}
+                    <Card className="lg:col-span-1 h-fit">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Layers className="w-5 h-5 text-purple-600" />
+                                Saved Templates
+                                <span className="ml-2 text-sm font-normal text-gray-500 bg-gray-100 px-2 py-1 rounded-full">
+                                    {templates.length}
+                                </span>
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            {templates.length === 0 ? (
+                                <p className="text-center text-sm text-gray-500 py-8">
+                                    No templates yet. Build one from a sample line.
+                                </p>
+                            ) : (
+                                <div className="space-y-3">
+                                    {templates.map(template => (
+                                        <div key={template.id} className="border rounded-lg p-3 flex items-start justify-between gap-2">
+                                            <div className="min-w-0">
+                                                <p className="font-medium text-gray-800">{template.name}</p>
+                                                <p className="text-xs text-gray-500">
+                                                    {template.fields.map(f => TEMPLATE_FIELDS.find(tf => tf.key === f.key)?.label).join(', ')}
+                                                </p>
+                                                <p className="text-xs text-gray-400 font-mono truncate mt-1">{template.sampleLine}</p>
+                                            </div>
+                                            <Button variant="ghost" size="sm" onClick={() => handleDelete(template.id)}>
+                                                <Trash2 className="w-4 h-4 text-red-500" />
+                                            </Button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default StatementTemplates;
@@ -0,0 +1,79 @@
+// Background Parser - runs statement parsing, customer enrichment and the duplicate pre-check
+// in a Web Worker so month-end statements of tens of thousands of lines do not freeze the tab
+import type { BankId } from './banks';
+import type { ContinuityReport } from './balanceContinuity';
+import type { StatementSummary } from './statementSummary';
+import type { CustomerMapping } from './customerMappingService';
+import type { PaymentMethodRule } from './paymentMethodRules';
+import type { DepositAccountMapping } from './depositAccountMapping';
+import type { StatementTemplate } from './statementTemplates';
+import type { LineSource, ParsedTransaction, StatementBalance } from './transactionParser';
+
+export interface BackgroundParseRequest {
+  rawData: string;
+  bankType: BankId;
+  customerMappings: CustomerMapping[];
+  lineSources?: LineSource[];
+  templates: StatementTemplate[];   // Saved templates, so template bank types parse in the worker too
+  paymentMethodRules: PaymentMethodRule[];
+  depositAccountMappings: DepositAccountMapping[];
+}
+
+// Messages posted by the worker while it parses
+export type BackgroundParseMessage =
+  | {
+      type: 'chunk';
+      successful: ParsedTransaction[];  // Enriched, with already-saved transactions removed
+      failed: ParsedTransaction[];
+      duplicateCount: number;           // Transactions in this chunk that were already saved
+      progress: number;                 // Percentage of records processed so far
+    }
+  | {
+      type: 'done';
+      totalLines: number;
+      openingBalance?: StatementBalance;
+      closingBalance?: StatementBalance;
+      continuity?: ContinuityReport;    // Checked over every parsed row, including the duplicates removed
+      summary?: StatementSummary;       // Both absent when the statement mixes currencies
+      mixedCurrencies?: string[];
+      dedupError: string | null;        // First duplicate check failure; those chunks were kept whole
+    }
+  | { type: 'error'; message: string };
+
+export interface BackgroundParseHandlers {
+  onChunk: (chunk: Extract<BackgroundParseMessage, { type: 'chunk' }>) => void;
+  onDone: (done: Extract<BackgroundParseMessage, { type: 'done' }>) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Start parsing in a new worker. Chunks arrive through the handlers as they finish;
+ * cancel() stops the worker straight away and no further handlers are called.
+ */
+export function startBackgroundParse(request: BackgroundParseRequest, handlers: BackgroundParseHandlers): { cancel: () => void } {
+  const worker = new Worker(new URL('./parseWorker.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (event: MessageEvent<BackgroundParseMessage>) => {
+    const message = event.data;
+    if (message.type === 'chunk') {
+      handlers.onChunk(message);
+      return;
+    }
+    worker.terminate();
+    if (message.type === 'done') {
+      handlers.onDone(message);
+    } else {
+      handlers.onError(message.message);
+    }
+  };
+
+  worker.onerror = (event: ErrorEvent) => {
+    console.error('Background parse failed:', event.message);
+    worker.terminate();
+    handlers.onError(event.message || 'Background parser stopped unexpectedly');
+  };
+
+  worker.postMessage(request);
+
+  return { cancel: () => worker.terminate() };
+}
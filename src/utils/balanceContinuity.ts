@@ -0,0 +1,148 @@
+// Balance Continuity - check that each row's running balance follows from the row before it
+// (previous balance + credit - debit), to find statement lines that are missing, duplicated or out of order
+import type { ParsedTransaction, StatementBalance } from './transactionParser';
+import { describeLineNumbers } from './recordAssembler';
+import { addMoney, formatMoney, Money, negateMoney, subtractMoney } from './money';
+
+export type ContinuityIssueKind = 'missing' | 'duplicate' | 'out-of-order';
+
+export interface ContinuityIssue {
+  kind: ContinuityIssueKind;
+  index: number;              // Position of the row in the checked transactions
+  lineNumbers?: number[];     // Input lines of the row, when known
+  expected: Money;            // Balance the row should show, given the rows before it
+  actual: Money;              // Balance the row shows
+  message: string;
+}
+
+export interface ContinuityReport {
+  checkedCount: number;       // Rows that carry a running balance
+  order: 'oldest-first' | 'newest-first';
+  issues: ContinuityIssue[];
+}
+
+// Signed effect of a row on the account balance
+export function balanceMovement(transaction: ParsedTransaction): Money {
+  return transaction.direction === 'Debit'
+    ? negateMoney(transaction.amount)
+    : transaction.amount;
+}
+
+function describeRow(transaction: ParsedTransaction, index: number): string {
+  return describeLineNumbers(transaction.lineNumbers) || `row ${index + 1}`;
+}
+
+/**
+ * Walk the rows in time order. Each row with a balance is compared with the balance carried
+ * forward from the rows before it; a mismatch is explained as a repeat of the previous row,
+ * a row that belongs elsewhere (another row's balance plus this movement gives it), or else
+ * lines missing before it. The carried balance is reset to the row's own after each mismatch.
+ */
+function checkInTimeOrder(
+  transactions: ParsedTransaction[],
+  order: number[],                      // Indexes of transactions, oldest first
+  openingBalance?: StatementBalance,
+  closingBalance?: StatementBalance
+): ContinuityIssue[] {
+  const issues: ContinuityIssue[] = [];
+
+  // Rows by the balance they end on, to spot a row whose predecessor is somewhere else
+  const rowsByBalance = new Map<number, number[]>();
+  for (const index of order) {
+    const balance = transactions[index].balance;
+    if (balance) rowsByBalance.set(balance.minorUnits, [...(rowsByBalance.get(balance.minorUnits) || []), index]);
+  }
+
+  let carried: Money | null = openingBalance ? openingBalance.amount : null;
+  let previous: number | null = null;   // Last row that had a balance
+  const movedRows = new Set<number>();  // Rows already reported as out of order
+
+  for (const index of order) {
+    const transaction = transactions[index];
+    if (carried) carried = addMoney(carried, balanceMovement(transaction));
+
+    const balance = transaction.balance;
+    if (!balance) continue;
+
+    if (carried && carried.minorUnits !== balance.minorUnits) {
+      const row = describeRow(transaction, index);
+      const before = previous !== null ? describeRow(transactions[previous], previous) : 'the opening balance';
+      const last = previous !== null ? transactions[previous] : null;
+      const predecessor = (rowsByBalance.get(subtractMoney(balance, balanceMovement(transaction)).minorUnits) || [])
+        .find(other => other !== index && other !== previous);
+
+      let kind: ContinuityIssueKind;
+      let message: string;
+      if (last?.balance && last.balance.minorUnits === balance.minorUnits
+        && last.amount.minorUnits === transaction.amount.minorUnits && last.direction === transaction.direction) {
+        kind = 'duplicate';
+        message = `${row} repeats ${before} (same amount and balance)`;
+      } else if (predecessor !== undefined && movedRows.has(predecessor)) {
+        // The row follows on from one that was itself out of place; that move is already reported
+        carried = balance;
+        previous = index;
+        continue;
+      } else if (predecessor !== undefined) {
+        kind = 'out-of-order';
+        movedRows.add(index);
+        message = `${row} follows on from ${describeRow(transactions[predecessor], predecessor)}, not ${before} - lines are out of order`;
+      } else {
+        kind = 'missing';
+        message = `${row} shows a balance of ${formatMoney(balance, true)} but ${before} leads to ${formatMoney(carried, true)} - lines are missing or failed to parse`;
+      }
+
+      issues.push({ kind, index, lineNumbers: transaction.lineNumbers, expected: carried, actual: balance, message });
+    }
+
+    carried = balance;
+    previous = index;
+  }
+
+  if (closingBalance && carried && previous !== null) {
+    const closing = closingBalance.amount;
+    if (closing.minorUnits !== carried.minorUnits) {
+      issues.push({
+        kind: 'missing',
+        index: previous,
+        lineNumbers: transactions[previous].lineNumbers,
+        expected: carried,
+        actual: closing,
+        message: `Closing balance is ${formatMoney(closing, true)} but the rows end on ${formatMoney(carried, true)} - lines are missing after ${describeRow(transactions[previous], previous)}`
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check the running balances of a statement, in the order its rows were parsed. Statements listed
+ * newest first (mobile money exports) are recognised from the first and last dates, or when every
+ * row has the same date by trying both orders and keeping the one with fewer breaks.
+ * Pass every parsed row, before already-saved duplicates are removed.
+ */
+export function checkBalanceContinuity(
+  transactions: ParsedTransaction[],
+  openingBalance?: StatementBalance,
+  closingBalance?: StatementBalance
+): ContinuityReport {
+  const checkedCount = transactions.filter(t => t.balance).length;
+  const oldestFirst = transactions.map((_, index) => index);
+
+  const dates = transactions.map(t => t.isoDate).filter(date => date);
+  if (dates.length > 1 && dates[0] !== dates[dates.length - 1]) {
+    return dates[0] < dates[dates.length - 1]
+      ? { checkedCount, order: 'oldest-first', issues: checkInTimeOrder(transactions, oldestFirst, openingBalance, closingBalance) }
+      : { checkedCount, order: 'newest-first', issues: checkInTimeOrder(transactions, [...oldestFirst].reverse(), openingBalance, closingBalance).sort((a, b) => a.index - b.index) };
+  }
+
+  const forward = checkInTimeOrder(transactions, oldestFirst, openingBalance, closingBalance);
+  if (forward.length === 0 || checkedCount < 2) {
+    return { checkedCount, order: 'oldest-first', issues: forward };
+  }
+
+  const backward = checkInTimeOrder(transactions, [...oldestFirst].reverse(), openingBalance, closingBalance);
+  return backward.length < forward.length
+    ? { checkedCount, order: 'newest-first', issues: backward.sort((a, b) => a.index - b.index) }
+    : { checkedCount, order: 'oldest-first', issues: forward };
+}
@@ -0,0 +1,90 @@
+// Airtel Money merchant statement format - CSV or tab-separated text export
+import type { ParsedTransaction } from '../transactionParser';
+import type { BankFormat } from './types';
+import { readPaymentDate } from '../dateNormalization';
+import { absMoney, parseMoney, subtractMoney } from '../money';
+import { fromText } from '../provenance';
+import { createEmptyTransaction, splitStatementColumns } from './common';
+
+const sampleData = `Transaction ID,Transaction Date,Sender MSISDN,Sender Name,Reference,Amount,Fee,Balance
+MP260119.1432.L48213,19/01/2026 14:32,255684123456,JUMA ALLY HASSAN,MC241EPW,"25,000.00",250.00,"824,750.00"
+MP260119.1705.L48977,19/01/2026 17:05,255689765432,NEEMA JOSEPH MREMA,MC236EPW,"40,000.00",400.00,"864,350.00"
+MP260120.0912.L50114,20/01/2026 09:12,255785111222,ZAWADI PETRO KIMARO,MC255KLM,"15,500.00",155.00,"879,695.00"`;
+
+export function parseAirtelTransactionLine(line: string): ParsedTransaction {
+  const trimmedLine = line.trim();
+  if (!trimmedLine) return createEmptyTransaction(line, 'Empty line');
+
+  try {
+    // Airtel Format: Transaction ID | Transaction Date | Sender MSISDN | Sender Name | Reference | Amount | Fee | Balance
+    // Example: MP260119.1432.L48213,19/01/2026 14:32,255684123456,JUMA ALLY HASSAN,MC241EPW,"25,000.00",250.00,"824,750.00"
+    const columns = splitStatementColumns(trimmedLine);
+
+    if (columns.length < 8) {
+      return createEmptyTransaction(trimmedLine, 'Could not extract required fields from Airtel Money line');
+    }
+
+    const [transactionId, transactionDate, senderMsisdn, senderName, reference, grossAmount, fee, balance] = columns;
+
+    // 1. Date - "19/01/2026 14:32"
+    const dateMatch = transactionDate.match(/^(\d{2}\/\d{2}\/\d{4})/);
+    if (!transactionId || !dateMatch) {
+      return createEmptyTransaction(trimmedLine, 'Could not extract required fields from Airtel Money line');
+    }
+
+    // 2. Amount received = gross amount less the merchant wallet fee; negative amounts (withdrawals,
+    // reversals) are money out
+    const signedGross = parseMoney(grossAmount);
+    if (signedGross.minorUnits === 0) {
+      return createEmptyTransaction(trimmedLine, 'No amount on Airtel Money line');
+    }
+    const isCredit = signedGross.minorUnits > 0;
+    const gross = absMoney(signedGross);
+    const feeValue = parseMoney(fee);
+    const amountIndex = trimmedLine.indexOf(senderName) + senderName.length;
+
+    return {
+      paymentDate: dateMatch[1],
+      ...readPaymentDate(dateMatch[1], 'DMY'),
+      customer: senderName,
+      paymentMethod: 'Mobile Money',
+      depositToAccountName: 'Airtel Money Merchant',
+      invoiceNo: transactionId,
+      journalNo: '',
+      amount: isCredit ? subtractMoney(gross, feeValue) : gross,
+      direction: isCredit ? 'Credit' : 'Debit',
+      referenceMemo: reference || senderMsisdn,
+      countryCode: '',
+      exchangeRate: '',
+      balance: balance ? parseMoney(balance) : undefined,
+      payerPhone: senderMsisdn,
+      grossAmount: gross,
+      fee: feeValue,
+      rawLine: trimmedLine,
+      provenance: {
+        paymentDate: fromText(trimmedLine, dateMatch[1], 'Transaction Date column', 'high'),
+        customer: fromText(trimmedLine, senderName, 'Sender Name column', 'high'),
+        invoiceNo: fromText(trimmedLine, transactionId, 'Transaction ID column', 'high'),
+        amount: fromText(trimmedLine, grossAmount, isCredit ? 'Amount column less Fee' : 'Negative Amount column', 'high', amountIndex),
+        referenceMemo: reference
+          ? fromText(trimmedLine, reference, 'Reference column', 'high', amountIndex - senderName.length)
+          : fromText(trimmedLine, senderMsisdn, 'No reference - sender MSISDN used', 'low'),
+        payerPhone: fromText(trimmedLine, senderMsisdn, 'Sender MSISDN column', 'high')
+      },
+      isValid: true
+    };
+  } catch (error) {
+    return createEmptyTransaction(line, `Parse error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export const airtelBank: BankFormat = {
+  id: 'AIRTEL',
+  displayName: 'Airtel Money',
+  sampleData,
+  // "MP260119.1432.L48213" transaction id followed by a "DD/MM/YYYY HH:MM" date
+  signatures: [/^"?[A-Z]{2}\d{6}\.\d{4}\.[A-Z0-9]+"?[,\t]/, /[,\t]"?\d{2}\/\d{2}\/\d{4} \d{2}:\d{2}/],
+  isHeaderLine: line => /^"?Transaction ID/i.test(line),
+  parseLine: parseAirtelTransactionLine,
+  dedupKey: t => t.invoiceNo
+};
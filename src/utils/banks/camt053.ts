@@ -0,0 +1,230 @@
+// ISO 20022 camt.053 (bank-to-customer statement) XML format
+import type { ParsedTransaction, StatementBalance } from '../transactionParser';
+import type { BankFormat, StatementDocument } from './types';
+import { readPaymentDate } from '../dateNormalization';
+import { DEFAULT_CURRENCY, negateMoney, parseMoney } from '../money';
+import { fromText } from '../provenance';
+import { createEmptyTransaction } from './common';
+import { parseXml, xmlChild, xmlDescendants, xmlText, XmlElement } from './xml';
+
+const sampleData = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <GrpHdr>
+      <MsgId>CAMT053-260120-001</MsgId>
+      <CreDtTm>2026-01-20T18:00:00</CreDtTm>
+    </GrpHdr>
+    <Stmt>
+      <Id>STMT260120</Id>
+      <Acct>
+        <Id><Othr><Id>0150123456789</Id></Othr></Id>
+        <Ccy>TZS</Ccy>
+      </Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="TZS">1250000.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2026-01-19</Dt></Dt>
+      </Bal>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="TZS">1330500.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2026-01-20</Dt></Dt>
+      </Bal>
+      <Ntry>
+        <NtryRef>FT26019QK7R2</NtryRef>
+        <Amt Ccy="TZS">25000.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2026-01-19</Dt></BookgDt>
+        <ValDt><Dt>2026-01-19</Dt></ValDt>
+        <AcctSvcrRef>NBC0119001</AcctSvcrRef>
+        <NtryDtls>
+          <TxDtls>
+            <RltdPties><Dbtr><Nm>JUMA ALLY HASSAN</Nm></Dbtr></RltdPties>
+            <RmtInf><Ustrd>CASH DEPOSIT MC241EPW</Ustrd></RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <NtryRef>FT26019RT4M8</NtryRef>
+        <Amt Ccy="TZS">40000.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2026-01-19</Dt></BookgDt>
+        <ValDt><Dt>2026-01-19</Dt></ValDt>
+        <AcctSvcrRef>NBC0119002</AcctSvcrRef>
+        <NtryDtls>
+          <TxDtls>
+            <RltdPties><Dbtr><Nm>NEEMA JOSEPH MREMA</Nm></Dbtr></RltdPties>
+            <RmtInf><Ustrd>SCHOOL FEES MC236EPW</Ustrd></RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <NtryRef>FT26020AB1C9</NtryRef>
+        <Amt Ccy="TZS">15500.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2026-01-20</Dt></BookgDt>
+        <ValDt><Dt>2026-01-20</Dt></ValDt>
+        <AcctSvcrRef>NBC0120004</AcctSvcrRef>
+        <NtryDtls>
+          <TxDtls>
+            <RltdPties><Dbtr><Nm>ZAWADI PETRO KIMARO</Nm></Dbtr></RltdPties>
+            <RmtInf><Ustrd>MC255KLM</Ustrd></RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+// Elements that make up almost every line of a camt.053 file
+const camtElementPattern = /^<\/?(?:\w+:)?(?:Document|BkToCstmrStmt|GrpHdr|MsgId|CreDtTm|Stmt|ElctrncSeqNb|FrToDt|FrDtTm|ToDtTm|Acct|Id|IBAN|Othr|Ccy|Ownr|Svcr|FinInstnId|BIC|BICFI|Bal|Tp|CdOrPrtry|Cd|Prtry|Amt|CdtDbtInd|Dt|DtTm|TxsSummry|TtlNtries|TtlCdtNtries|TtlDbtNtries|NbOfNtries|Sum|TtlNetNtry|Ntry|NtryRef|RvslInd|Sts|BookgDt|ValDt|AcctSvcrRef|BkTxCd|Domn|Fmly|SubFmlyCd|NtryDtls|Btch|TxDtls|Refs|EndToEndId|TxId|InstrId|AmtDtls|InstdAmt|TxAmt|RltdPties|Dbtr|DbtrAcct|Cdtr|CdtrAcct|Pty|Nm|PstlAdr|Ctry|AdrLine|RmtInf|Ustrd|Strd|AddtlTxInf|AddtlNtryInf|AddtlStmtInf)\b/;
+
+/**
+ * Convert an ISO date or date-time ("2026-01-19", "2026-01-19T10:00:00") to DD/MM/YYYY
+ */
+function convertIsoDate(value: string): string {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : value;
+}
+
+function elementDate(element: XmlElement | null): string {
+  return convertIsoDate(xmlText(element, 'Dt') || xmlText(element, 'DtTm'));
+}
+
+function parseBalance(balance: XmlElement): StatementBalance {
+  const amountElement = xmlChild(balance, 'Amt');
+  const amount = parseMoney(amountElement?.text || '', amountElement?.attributes.Ccy || DEFAULT_CURRENCY);
+  return {
+    date: elementDate(xmlChild(balance, 'Dt')),
+    amount: xmlText(balance, 'CdtDbtInd') === 'DBIT' ? negateMoney(amount) : amount
+  };
+}
+
+/**
+ * Build a transaction from one Ntry element
+ */
+function parseEntry(entry: XmlElement, rawLine: string): ParsedTransaction {
+  const amountText = xmlText(entry, 'Amt');
+  if (!amountText) {
+    return createEmptyTransaction(rawLine, 'Could not extract amount from camt.053 entry');
+  }
+  const amount = parseMoney(amountText, xmlChild(entry, 'Amt')?.attributes.Ccy || DEFAULT_CURRENCY);
+  if (amount.minorUnits <= 0) {
+    return createEmptyTransaction(rawLine, 'No amount on camt.053 entry');
+  }
+  const direction = xmlText(entry, 'CdtDbtInd') === 'DBIT' ? 'Debit' : 'Credit';
+
+  const bookingDate = elementDate(xmlChild(entry, 'BookgDt'));
+  const valueDate = elementDate(xmlChild(entry, 'ValDt'));
+  if (!bookingDate && !valueDate) {
+    return createEmptyTransaction(rawLine, 'Could not extract date from camt.053 entry');
+  }
+
+  const details = xmlDescendants(entry, 'TxDtls');
+  const firstDetails = details[0] || null;
+
+  // Entry reference, falling back to the servicer and end-to-end references of the transaction details
+  const referenceSources: [string, string][] = [
+    [xmlText(entry, 'NtryRef'), 'Ntry/NtryRef'],
+    [xmlText(entry, 'AcctSvcrRef'), 'Ntry/AcctSvcrRef'],
+    [xmlText(firstDetails, 'Refs/AcctSvcrRef'), 'TxDtls/Refs/AcctSvcrRef'],
+    [xmlText(firstDetails, 'Refs/EndToEndId'), 'TxDtls/Refs/EndToEndId']
+  ];
+  const referenceIndex = referenceSources.findIndex(([value]) => value);
+  const invoiceNo = referenceIndex === -1 ? '' : referenceSources[referenceIndex][0];
+
+  // Unstructured remittance lines of every transaction in the entry
+  const remittanceLines = details
+    .flatMap(d => xmlDescendants(d, 'Ustrd').map(u => u.text))
+    .filter(text => text);
+  const memo = remittanceLines.join(' ') || xmlText(entry, 'AddtlNtryInf');
+
+  // Debtor name for money in, creditor name for money out - camt.053.001.02 uses Dbtr/Nm, later versions Dbtr/Pty/Nm
+  const party = direction === 'Credit' ? 'Dbtr' : 'Cdtr';
+  const customer = xmlText(firstDetails, `RltdPties/${party}/Nm`) || xmlText(firstDetails, `RltdPties/${party}/Pty/Nm`);
+
+  // The statement's own ISO date text, for locating the date in rawLine
+  const dateElement = bookingDate ? 'BookgDt' : 'ValDt';
+  const dateText = xmlText(entry, `${dateElement}/Dt`) || xmlText(entry, `${dateElement}/DtTm`);
+
+  return {
+    paymentDate: bookingDate || valueDate,
+    ...readPaymentDate(bookingDate || valueDate, 'DMY'),
+    customer,
+    paymentMethod: '', // Set by the payment method rules after parsing (paymentMethodRules.ts)
+    depositToAccountName: 'camt.053 Collection AC',
+    invoiceNo,
+    journalNo: '',
+    amount,
+    direction,
+    referenceMemo: memo || invoiceNo,
+    countryCode: '',
+    exchangeRate: '',
+    valueDate: valueDate || undefined,
+    rawLine,
+    provenance: {
+      paymentDate: fromText(rawLine, dateText, `${dateElement} date`, 'high'),
+      customer: fromText(rawLine, customer, `RltdPties/${party} name`, 'high'),
+      invoiceNo: referenceIndex === -1
+        ? undefined
+        : fromText(rawLine, invoiceNo, referenceSources[referenceIndex][1], referenceIndex === 0 ? 'high' : 'medium'),
+      amount: fromText(rawLine, amountText, 'Ntry/Amt', 'high'),
+      direction: fromText(rawLine, direction === 'Debit' ? 'DBIT' : 'CRDT', 'Ntry/CdtDbtInd', 'high'),
+      referenceMemo: remittanceLines.length > 0
+        ? fromText(rawLine, remittanceLines[0], 'Remittance information (Ustrd)', 'high')
+        : memo
+          ? fromText(rawLine, memo, 'AddtlNtryInf', 'medium')
+          : fromText(rawLine, invoiceNo, 'No remittance information - reference used', 'low')
+    },
+    isValid: true
+  };
+}
+
+/**
+ * Parse a camt.053 document. Opening balance is the first OPBD (or PRCD) balance,
+ * closing balance the last CLBD balance across all statements in the file.
+ */
+export function parseCamt053Statement(rawData: string): StatementDocument {
+  const document = parseXml(rawData);
+
+  // Source text of each entry, collapsed to one line for the failed records view
+  const entrySources = rawData.match(/<(?:\w+:)?Ntry[\s>][\s\S]*?<\/(?:\w+:)?Ntry>/g) || [];
+
+  const transactions = xmlDescendants(document, 'Ntry').map((entry, index) =>
+    parseEntry(entry, (entrySources[index] || '').replace(/>\s+</g, '><').trim())
+  );
+
+  let openingBalance: StatementBalance | undefined;
+  let closingBalance: StatementBalance | undefined;
+  for (const balance of xmlDescendants(document, 'Bal')) {
+    const code = xmlText(balance, 'Tp/CdOrPrtry/Cd');
+    if ((code === 'OPBD' || code === 'PRCD') && !openingBalance) {
+      openingBalance = parseBalance(balance);
+    } else if (code === 'CLBD') {
+      closingBalance = parseBalance(balance);
+    }
+  }
+
+  return { transactions, openingBalance, closingBalance };
+}
+
+export function parseCamt053TransactionLine(line: string): ParsedTransaction {
+  return parseCamt053Statement(line).transactions[0]
+    || createEmptyTransaction(line.trim(), 'Not a camt.053 Ntry element');
+}
+
+export const camt053Bank: BankFormat = {
+  id: 'CAMT053',
+  displayName: 'camt.053 (ISO 20022)',
+  sampleData,
+  signatures: [camtElementPattern],
+  isHeaderLine: line => /^<\?xml\b/.test(line),
+  parseLine: parseCamt053TransactionLine,
+  parseStatement: parseCamt053Statement,
+  dedupKey: t => t.invoiceNo
+};
@@ -0,0 +1,41 @@
+// Helpers shared by the bank format modules
+import Papa from 'papaparse';
+import type { ParsedTransaction } from '../transactionParser';
+import { zeroMoney } from '../money';
+
+export function createEmptyTransaction(line: string, errorMessage?: string): ParsedTransaction {
+  return {
+    paymentDate: '',
+    customer: '',
+    paymentMethod: '',
+    depositToAccountName: '',
+    invoiceNo: '',
+    journalNo: '',
+    amount: zeroMoney(),
+    direction: 'Credit',
+    referenceMemo: '',
+    countryCode: '',
+    exchangeRate: '',
+    rawLine: line,
+    isValid: false,
+    errorMessage
+  };
+}
+
+/**
+ * Split one statement row into columns (tab separated export or quoted CSV)
+ */
+export function splitStatementColumns(line: string): string[] {
+  if (line.includes('\t')) {
+    return line.split('\t').map(c => c.trim());
+  }
+  const parsed = Papa.parse<string[]>(line, { delimiter: ',' });
+  return (parsed.data[0] || []).map(c => c.trim());
+}
+
+/**
+ * Parse a statement amount like "12,500.00" (returns 0 when empty or invalid)
+ */
+export function parseAmount(value: string): number {
+  return parseFloat((value || '').replace(/,/g, '')) || 0;
+}
@@ -0,0 +1,124 @@
+// CRDB Bank statement format
+import type { FailedRule, ParsedTransaction, TransactionDirection, TransactionProvenance } from '../transactionParser';
+import type { BankFormat } from './types';
+import { readPaymentDate } from '../dateNormalization';
+import { parseMoney } from '../money';
+import { fromMatch } from '../provenance';
+import { createEmptyTransaction, parseAmount } from './common';
+
+const sampleData = `20.01.2026 13:59:00	 REF:19bdb0f42ad57818 AGENCY FT FROM FANUEL JALISON MKUPALA TO FRANKAB17689067684357947257:HASSAN SAIDI NGUNDE:963330000396 N/A	 20.01.2026 00:00:00	 0.00	 12,500.00	 437,129,784.78`;
+
+export function parseCRDBTransactionLine(line: string): ParsedTransaction {
+  const trimmedLine = line.trim();
+  if (!trimmedLine) return createEmptyTransaction(line, 'Empty line');
+
+  try {
+    // CRDB Format: Posting Date Time | REF Description | Value Date Time | Debit | Credit | Balance
+    // Example: 20.01.2026 13:59:00 REF:... 20.01.2026 00:00:00 0.00 12,500.00 437,129,784.78
+
+    // 1. Extract Date (First date occurrence)
+    const datePattern = /(\d{2}\.\d{2}\.\d{4})/;
+    const dateMatch = trimmedLine.match(datePattern);
+    const paymentDate = dateMatch ? dateMatch[1].replace(/\./g, '/') : ''; // Convert to DD/MM/YYYY
+    const provenance: TransactionProvenance = {
+      paymentDate: fromMatch(dateMatch, 'Posting date "DD.MM.YYYY"', 'high')
+    };
+    const failedRules: FailedRule[] = [];
+    if (!dateMatch) failedRules.push({ field: 'paymentDate', rule: 'Posting date "DD.MM.YYYY"' });
+
+    // 2. Extract Amounts (not the "20.01.2026" posting and value dates)
+    const amountsRegex = /(?<![\d.])([\d,]+\.\d{2})(?![\d.])/g;
+    const amountMatches = [...trimmedLine.matchAll(amountsRegex)];
+    const allAmounts = amountMatches.map(m => m[1]);
+
+    let amount = '';
+    let balance = '';
+    let direction: TransactionDirection = 'Credit';
+    if (allAmounts.length >= 3) {
+      // Trailing debit, credit and balance columns
+      const [debitMatch, creditMatch, balanceMatch] = amountMatches.slice(-3);
+      const [debit, credit] = allAmounts.slice(-3);
+      balance = balanceMatch[1];
+      provenance.balance = fromMatch(balanceMatch, 'Balance column (last amount)', 'high');
+      if (parseAmount(credit) > 0) {
+        amount = credit;
+        provenance.amount = fromMatch(creditMatch, 'Credit column (second of last three amounts)', 'high');
+        provenance.direction = provenance.amount;
+      } else if (parseAmount(debit) > 0) {
+        amount = debit;
+        direction = 'Debit';
+        provenance.amount = fromMatch(debitMatch, 'Debit column (third from last amount)', 'high');
+        provenance.direction = provenance.amount;
+      }
+    } else {
+      // Without all three columns there is no telling which amount (if any) moved money
+      failedRules.push({ field: 'amount', rule: `Debit, credit and balance columns (found ${allAmounts.length} amount${allAmounts.length === 1 ? '' : 's'})` });
+    }
+
+    // 3. Extract Account Number
+    const accountPattern = /:(\d{10,14})\s+/;
+    const accountMatch = trimmedLine.match(accountPattern);
+    const accountNumber = accountMatch ? accountMatch[1] : '';
+    provenance.referenceMemo = accountMatch
+      ? fromMatch(accountMatch, 'Account number ":<10-14 digits>"', 'high')
+      : fromMatch(trimmedLine.match(/REF:([a-zA-Z0-9]+)/), 'No account number - REF id used', 'low');
+    if (!accountMatch) failedRules.push({ field: 'referenceMemo', rule: 'Account number ":<10-14 digits>"' });
+
+    // 4. Extract Ref ID
+    const refPattern = /REF:([a-zA-Z0-9]+)/;
+    const refMatch = trimmedLine.match(refPattern);
+    const invoiceNo = refMatch ? refMatch[1] : '';
+    provenance.invoiceNo = fromMatch(refMatch, '"REF:<id>"', 'high');
+    if (!refMatch) failedRules.push({ field: 'invoiceNo', rule: '"REF:<id>"' });
+
+    // 5. Extract Client Name
+    const namePattern = /:([a-zA-Z\s]+):(?=\d{10,14})/;
+    const nameMatch = trimmedLine.match(namePattern);
+    const customer = nameMatch ? nameMatch[1].trim() : '';
+    provenance.customer = fromMatch(nameMatch, '":NAME:" before account number', 'medium');
+    if (!nameMatch) failedRules.push({ field: 'customer', rule: '":NAME:" before account number' });
+
+    const isValid = !!(amount && paymentDate);
+
+    return {
+      paymentDate,
+      ...readPaymentDate(paymentDate, 'DMY'),
+      customer,
+      paymentMethod: '', // Set by the payment method rules after parsing (paymentMethodRules.ts)
+      depositToAccountName: 'CRDB Collection AC',
+      invoiceNo,
+      journalNo: '',
+      amount: parseMoney(amount),
+      direction,
+      referenceMemo: accountNumber || invoiceNo,
+      countryCode: '',
+      exchangeRate: '',
+      balance: balance ? parseMoney(balance) : undefined,
+      rawLine: trimmedLine,
+      provenance,
+      failedRules,
+      isValid,
+      errorMessage: isValid
+        ? undefined
+        : amount ? 'Could not extract required fields from CRDB line' : 'No debit or credit amount in CRDB line'
+    };
+
+  } catch (error) {
+    return createEmptyTransaction(line, `Parse error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export const crdbBank: BankFormat = {
+  id: 'CRDB',
+  displayName: 'CRDB',
+  sampleData,
+  // "19.01.2026 22:40:00" at the start of the line followed by a "REF:" id
+  signatures: [/^\d{2}\.\d{2}\.\d{4}\s+\d{2}:\d{2}:\d{2}/, /REF:/],
+  // Records start with the posting date and time followed by the REF/narration column; a narration
+  // wrapped before the value date puts "20.01.2026 00:00:00" and the amounts at the start of the next line
+  recordStart: /^\d{2}\.\d{2}\.\d{4}\s+\d{2}:\d{2}:\d{2}\s+[^\d\s-]/,
+  // Finished once the debit, credit and balance columns have been read
+  recordEnd: /[\d,]+\.\d{2}\s+[\d,]+\.\d{2}\s+-?[\d,]+\.\d{2}$/,
+  parseLine: parseCRDBTransactionLine,
+  dedupKey: t => t.invoiceNo
+};
@@ -0,0 +1,46 @@
+// Bank Format Registry - every supported statement format is listed here
+import type { BankFormat, BankId } from './types';
+import { nmbBank } from './nmb';
+import { crdbBank } from './crdb';
+import { nbcBank } from './nbc';
+import { mpesaBank } from './mpesa';
+import { airtelBank } from './airtel';
+import { mixxBank } from './mixx';
+import { mt940Bank } from './mt940';
+import { camt053Bank } from './camt053';
+import { ofxBank } from './ofx';
+
+export type { BankFormat, BankId, StatementDocument } from './types';
+
+// Order determines the order of the bank type picker
+export const BANK_FORMATS: BankFormat[] = [nmbBank, crdbBank, nbcBank, mpesaBank, airtelBank, mixxBank, mt940Bank, camt053Bank, ofxBank];
+
+export const DEFAULT_BANK_ID: BankId = nmbBank.id;
+
+// Formats defined at runtime (user statement templates), listed after the built-in ones
+let customFormats: BankFormat[] = [];
+
+/**
+ * Replace the runtime-defined formats (e.g. after statement templates are loaded or edited)
+ */
+export function setCustomBankFormats(formats: BankFormat[]): void {
+  customFormats = formats;
+}
+
+/**
+ * All formats available for parsing: built-in banks followed by custom formats
+ */
+export function getBankFormats(): BankFormat[] {
+  return [...BANK_FORMATS, ...customFormats];
+}
+
+/**
+ * Look up a registered bank format by its id
+ */
+export function getBankFormat(id: BankId): BankFormat {
+  const bank = getBankFormats().find(b => b.id === id);
+  if (!bank) {
+    throw new Error(`Unknown bank type: ${id}`);
+  }
+  return bank;
+}
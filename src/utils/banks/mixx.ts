@@ -0,0 +1,92 @@
+// Mixx by Yas (formerly Tigo Pesa) merchant statement format - CSV or tab-separated text export
+import type { ParsedTransaction } from '../transactionParser';
+import type { BankFormat } from './types';
+import { readPaymentDate } from '../dateNormalization';
+import { parseMoney, subtractMoney } from '../money';
+import { fromText } from '../provenance';
+import { createEmptyTransaction, splitStatementColumns } from './common';
+
+const sampleData = `Txn ID,Date Time,Type,From MSISDN,From Name,Credit,Debit,Service Charge,Balance,Remarks
+26011914321187,19-01-2026 14:32:10,Merchant Payment,255714123456,JUMA ALLY HASSAN,"25,000.00",,300.00,"524,700.00",MC241EPW
+26011917054420,19-01-2026 17:05:44,Merchant Payment,255655987321,NEEMA JOSEPH MREMA,"40,000.00",,480.00,"564,220.00",MC236EPW
+26012009120315,20-01-2026 09:12:03,Merchant Payment,255677111222,ZAWADI PETRO KIMARO,"15,500.00",,186.00,"579,534.00",MC255KLM`;
+
+export function parseMixxTransactionLine(line: string): ParsedTransaction {
+  const trimmedLine = line.trim();
+  if (!trimmedLine) return createEmptyTransaction(line, 'Empty line');
+
+  try {
+    // Mixx Format: Txn ID | Date Time | Type | From MSISDN | From Name | Credit | Debit | Service Charge | Balance | Remarks
+    // Example: 26011914321187,19-01-2026 14:32:10,Merchant Payment,255714123456,JUMA ALLY HASSAN,"25,000.00",,300.00,"524,700.00",MC241EPW
+    const columns = splitStatementColumns(trimmedLine);
+
+    if (columns.length < 9) {
+      return createEmptyTransaction(trimmedLine, 'Could not extract required fields from Mixx line');
+    }
+
+    const [txnId, dateTime, type, fromMsisdn, fromName, credit, debit, serviceCharge, balance, remarks = ''] = columns;
+
+    // 1. Date - "19-01-2026 14:32:10" converted to DD/MM/YYYY
+    const dateMatch = dateTime.match(/^(\d{2})-(\d{2})-(\d{4})/);
+    if (!txnId || !dateMatch) {
+      return createEmptyTransaction(trimmedLine, 'Could not extract required fields from Mixx line');
+    }
+
+    const paymentDate = `${dateMatch[1]}/${dateMatch[2]}/${dateMatch[3]}`;
+
+    // 2. Amount received = credit less the service charge; debits (payouts, reversals) are money out
+    const isCredit = parseMoney(credit).minorUnits > 0;
+    const gross = parseMoney(isCredit ? credit : debit);
+    if (gross.minorUnits <= 0) {
+      return createEmptyTransaction(trimmedLine, 'No credit or debit amount on Mixx line');
+    }
+    const feeValue = parseMoney(serviceCharge);
+    const amountIndex = trimmedLine.indexOf(fromName) + fromName.length;
+
+    return {
+      paymentDate,
+      ...readPaymentDate(paymentDate, 'DMY'),
+      customer: fromName,
+      paymentMethod: 'Mobile Money',
+      depositToAccountName: 'Mixx by Yas Merchant',
+      invoiceNo: txnId,
+      journalNo: '',
+      amount: isCredit ? subtractMoney(gross, feeValue) : gross,
+      direction: isCredit ? 'Credit' : 'Debit',
+      referenceMemo: remarks || fromMsisdn || type,
+      countryCode: '',
+      exchangeRate: '',
+      balance: balance ? parseMoney(balance) : undefined,
+      payerPhone: fromMsisdn,
+      grossAmount: gross,
+      fee: feeValue,
+      rawLine: trimmedLine,
+      provenance: {
+        paymentDate: fromText(trimmedLine, dateTime, 'Date Time column', 'high'),
+        customer: fromText(trimmedLine, fromName, 'From Name column', 'high'),
+        invoiceNo: fromText(trimmedLine, txnId, 'Txn ID column', 'high'),
+        amount: isCredit
+          ? fromText(trimmedLine, credit, 'Credit column less Service Charge', 'high', amountIndex)
+          : fromText(trimmedLine, debit, 'Debit column', 'high', amountIndex),
+        referenceMemo: remarks
+          ? fromText(trimmedLine, remarks, 'Remarks column', 'high', amountIndex)
+          : fromText(trimmedLine, fromMsisdn || type, 'No remarks - MSISDN or type used', 'low'),
+        payerPhone: fromText(trimmedLine, fromMsisdn, 'From MSISDN column', 'high')
+      },
+      isValid: true
+    };
+  } catch (error) {
+    return createEmptyTransaction(line, `Parse error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export const mixxBank: BankFormat = {
+  id: 'MIXX',
+  displayName: 'Mixx by Yas',
+  sampleData,
+  // Numeric transaction id followed by a "DD-MM-YYYY HH:MM:SS" date
+  signatures: [/^"?\d{10,}"?[,\t]/, /[,\t]"?\d{2}-\d{2}-\d{4} \d{2}:\d{2}:\d{2}/],
+  isHeaderLine: line => /^"?Txn ID/i.test(line),
+  parseLine: parseMixxTransactionLine,
+  dedupKey: t => t.invoiceNo
+};
@@ -0,0 +1,114 @@
+// M-Pesa (Vodacom) business statement format - CSV or tab-separated text export
+import type { ParsedTransaction } from '../transactionParser';
+import type { BankFormat } from './types';
+import { readPaymentDate } from '../dateNormalization';
+import { absMoney, parseMoney } from '../money';
+import { fromText } from '../provenance';
+import { createEmptyTransaction, parseAmount, splitStatementColumns } from './common';
+
+const sampleData = `Receipt No.,Completion Time,Details,Paid In,Withdrawn,Balance
+SAJ7XK2L9P,2026-01-19 14:32:10,Pay Bill from 255712345678 - JUMA ALLY HASSAN Acc. MC241EPW,"25,000.00",,"1,325,000.00"
+SAJ8QW3M1T,2026-01-19 16:05:44,Pay Bill from 255754987321 - NEEMA JOSEPH MREMA Acc. MC236EPW,"40,000.00",,"1,365,000.00"
+SAK1ZP7D4R,2026-01-20 09:12:03,Pay Bill from 255765111222 - ZAWADI PETRO KIMARO Acc. 0765111222,"15,500.00",,"1,380,500.00"`;
+
+const amountPattern = /^-?[\d,]+(?:\.\d{2})?$/;
+
+export function parseMpesaTransactionLine(line: string): ParsedTransaction {
+  const trimmedLine = line.trim();
+  if (!trimmedLine) return createEmptyTransaction(line, 'Empty line');
+
+  try {
+    // M-Pesa Format: Receipt No. | Completion Time | Details | Paid In | Withdrawn | Balance
+    // Example: SAJ7XK2L9P,2026-01-19 14:32:10,Pay Bill from 255712345678 - JUMA ALLY HASSAN Acc. MC241EPW,"25,000.00",,"1,325,000.00"
+    const columns = splitStatementColumns(trimmedLine);
+
+    // Some exports include a "Transaction Status" column after Details
+    if (columns.length >= 7 && !amountPattern.test(columns[3]) && columns[3] !== '') {
+      columns.splice(3, 1);
+    }
+
+    if (columns.length < 6) {
+      return createEmptyTransaction(trimmedLine, 'Could not extract required fields from M-Pesa line');
+    }
+
+    const [receiptNo, completionTime, details, paidIn, withdrawn, balance] = columns;
+
+    // 1. Date - "2026-01-19 14:32:10" converted to DD/MM/YYYY
+    const dateMatch = completionTime.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (!receiptNo || !dateMatch) {
+      return createEmptyTransaction(trimmedLine, 'Could not extract required fields from M-Pesa line');
+    }
+    const paymentDate = `${dateMatch[3]}/${dateMatch[2]}/${dateMatch[1]}`;
+
+    // 2. Paid In amount, or Withdrawn for money leaving the paybill (exports show it as negative)
+    const isCredit = parseAmount(paidIn) > 0;
+    const withdrawnValue = Math.abs(parseAmount(withdrawn));
+    if (!isCredit && withdrawnValue <= 0) {
+      return createEmptyTransaction(trimmedLine, 'No paid in or withdrawn amount on M-Pesa line');
+    }
+
+    // 3. Payer MSISDN, name and account reference from Details
+    // e.g. "Pay Bill from 255712345678 - JUMA ALLY HASSAN Acc. MC241EPW"
+    const msisdnMatch = details.match(/\b(255\d{9}|0\d{9})\b/);
+    const payerPhone = msisdnMatch ? msisdnMatch[1] : '';
+
+    const nameMatch = details.match(/\d\s*-\s*([^-]+?)\s*(?:Acc\.|$)/i);
+    const customer = nameMatch ? nameMatch[1].trim() : '';
+
+    const accountMatch = details.match(/Acc(?:ount)?\.?\s*(?:No\.?)?\s*([A-Za-z0-9]+)/i);
+    const accountReference = accountMatch ? accountMatch[1] : '';
+
+    // Values taken from Details are located after the Details column starts
+    const detailsIndex = trimmedLine.indexOf(details);
+    const amountIndex = detailsIndex + details.length;
+
+    return {
+      paymentDate,
+      ...readPaymentDate(paymentDate, 'DMY'),
+      customer,
+      paymentMethod: 'Mobile Money',
+      depositToAccountName: 'M-Pesa Paybill',
+      invoiceNo: receiptNo,
+      journalNo: '',
+      amount: isCredit ? parseMoney(paidIn) : absMoney(parseMoney(withdrawn)),
+      direction: isCredit ? 'Credit' : 'Debit',
+      referenceMemo: accountReference || payerPhone || details,
+      countryCode: '',
+      exchangeRate: '',
+      balance: amountPattern.test(balance) ? parseMoney(balance) : undefined,
+      payerPhone,
+      rawLine: trimmedLine,
+      provenance: {
+        paymentDate: fromText(trimmedLine, completionTime, 'Completion Time column', 'high'),
+        customer: fromText(trimmedLine, customer, 'Details "<MSISDN> - NAME"', 'medium', detailsIndex),
+        invoiceNo: fromText(trimmedLine, receiptNo, 'Receipt No column', 'high'),
+        amount: isCredit
+          ? fromText(trimmedLine, paidIn, 'Paid In column', 'high', amountIndex)
+          : fromText(trimmedLine, withdrawn, 'Withdrawn column', 'high', amountIndex),
+        direction: isCredit
+          ? fromText(trimmedLine, paidIn, 'Paid In column', 'high', amountIndex)
+          : fromText(trimmedLine, withdrawn, 'Withdrawn column', 'high', amountIndex),
+        referenceMemo: accountReference
+          ? fromText(trimmedLine, accountReference, 'Details "Acc. <reference>"', 'high', detailsIndex)
+          : payerPhone
+            ? fromText(trimmedLine, payerPhone, 'No account reference - payer MSISDN used', 'low', detailsIndex)
+            : fromText(trimmedLine, details, 'No account reference - Details used', 'low'),
+        payerPhone: fromText(trimmedLine, payerPhone, 'Details MSISDN', 'high', detailsIndex)
+      },
+      isValid: true
+    };
+  } catch (error) {
+    return createEmptyTransaction(line, `Parse error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export const mpesaBank: BankFormat = {
+  id: 'MPESA',
+  displayName: 'M-Pesa',
+  sampleData,
+  // 10-character receipt number as the first column, then a "YYYY-MM-DD HH:MM:SS" completion time
+  signatures: [/^"?[A-Z][A-Z0-9]{9}"?[,\t]/, /[,\t]"?\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}/],
+  isHeaderLine: line => /^"?Receipt No/i.test(line),
+  parseLine: parseMpesaTransactionLine,
+  dedupKey: t => t.invoiceNo
+};
@@ -0,0 +1,194 @@
+// MT940 (SWIFT customer statement) format - multi-line tagged records exported by corporate banking portals
+import type { ParsedTransaction, StatementBalance } from '../transactionParser';
+import type { BankFormat, StatementDocument } from './types';
+import { readPaymentDate } from '../dateNormalization';
+import { DEFAULT_CURRENCY, negateMoney, parseMoney } from '../money';
+import { fromText } from '../provenance';
+import { createEmptyTransaction } from './common';
+
+const sampleData = `{1:F01NLCBTZTXAXXX0000000000}{2:I940NLCBTZTXXXXXN}{4:
+:20:STMT260120
+:25:0150123456789
+:28C:00012/001
+:60F:C260119TZS1250000,00
+:61:2601190119C25000,00NTRFFT26019QK7R2//NBC0119001
+:86:CASH DEPOSIT BY JUMA ALLY HASSAN MC241EPW
+:61:2601190119C40000,00NTRFFT26019RT4M8//NBC0119002
+:86:TRANSFER FROM NEEMA JOSEPH MREMA
+MC236EPW
+:61:2601200120D5000,00NCHGNONREF//NBC0120003
+:86:MONTHLY LEDGER FEE
+:61:2601200120C15500,00NTRFFT26020AB1C9//NBC0120004
+:86:CASH DEPOSIT BY ZAWADI PETRO KIMARO MC255KLM
+:62F:C260120TZS1325500,00
+-}`;
+
+interface TagBlock {
+  tag: string;
+  lines: string[];
+}
+
+// :61: value date, optional entry date, D/C mark, optional funds code, amount, type code, customer ref, //bank ref
+const statementLinePattern = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([NFS][A-Z0-9]{3})(.*?)(?:\/\/(.*))?$/;
+// :60F: / :62F: D/C mark, date, currency, amount
+const balancePattern = /^([CD])(\d{6})([A-Z]{3})(\d+,\d*)$/;
+
+/**
+ * Convert an MT940 YYMMDD date to DD/MM/YYYY
+ */
+function convertSwiftDate(value: string): string {
+  return `${value.substring(4, 6)}/${value.substring(2, 4)}/20${value.substring(0, 2)}`;
+}
+
+/**
+ * Split the document into tag blocks; lines that do not start a new tag continue the previous one
+ */
+function splitTagBlocks(rawData: string): TagBlock[] {
+  const blocks: TagBlock[] = [];
+
+  for (const rawLine of rawData.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || /^(\{[1-5]:|-\}$)/.test(line)) continue;
+
+    const tagMatch = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagMatch) {
+      blocks.push({ tag: tagMatch[1], lines: [tagMatch[2].trim()] });
+    } else if (blocks.length > 0) {
+      blocks[blocks.length - 1].lines.push(line);
+    }
+  }
+
+  return blocks;
+}
+
+function parseBalance(value: string): StatementBalance | undefined {
+  const match = value.match(balancePattern);
+  if (!match) return undefined;
+
+  const [, mark, date, currency, amount] = match;
+  const balance = parseMoney(amount, currency); // "25000,00" - parseMoney reads the decimal comma
+  return {
+    date: convertSwiftDate(date),
+    amount: mark === 'D' ? negateMoney(balance) : balance
+  };
+}
+
+/**
+ * Build a transaction from a :61: statement line and its :86: narrative
+ */
+function parseStatementEntry(entry: TagBlock, narrative: TagBlock | null, currency: string): ParsedTransaction {
+  const rawLine = [
+    ...entry.lines.map((l, i) => (i === 0 ? `:61:${l}` : l)),
+    ...(narrative ? narrative.lines.map((l, i) => (i === 0 ? `:86:${l}` : l)) : [])
+  ].join(' ');
+
+  const match = entry.lines[0].match(statementLinePattern);
+  if (!match) {
+    return createEmptyTransaction(rawLine, 'Could not read MT940 :61: statement line');
+  }
+
+  const [, valueDateText, , mark, , amount, , customerRef, bankRef] = match;
+  const valueDate = convertSwiftDate(valueDateText);
+
+  // C / RD (reversal of a debit) bring money in; D / RC (reversal of a credit) take it out
+  const direction = mark === 'C' || mark === 'RD' ? 'Credit' : 'Debit';
+
+  const amountValue = parseMoney(amount, currency);
+  if (amountValue.minorUnits <= 0) {
+    return createEmptyTransaction(rawLine, 'No amount on MT940 line');
+  }
+
+  // Customer reference, or the bank's reference when the customer sent none
+  const reference = customerRef.trim();
+  const invoiceNo = reference && reference !== 'NONREF' ? reference : (bankRef || '').trim();
+
+  const narration = narrative ? narrative.lines.join(' ') : entry.lines.slice(1).join(' ');
+
+  // Payer name - structured "/ORDP/NAME" subfield, otherwise "DEPOSIT BY NAME" / "TRANSFER FROM NAME"
+  const orderingPartyMatch = narration.match(/\/(?:ORDP|NAME)\/([^/]+)/);
+  const payerMatch = narration.match(/\b(?:BY|FROM)\s+([A-Z]+(?:\s+[A-Z]+\b)*)/i);
+  const customer = orderingPartyMatch ? orderingPartyMatch[1].trim() : payerMatch ? payerMatch[1].trim() : '';
+  const narrationIndex = narrative ? rawLine.indexOf(':86:') : 0;
+
+  return {
+    paymentDate: valueDate,
+    ...readPaymentDate(valueDate, 'DMY'),
+    customer,
+    paymentMethod: '', // Set by the payment method rules after parsing (paymentMethodRules.ts)
+    depositToAccountName: 'MT940 Collection AC',
+    invoiceNo,
+    journalNo: '',
+    amount: amountValue,
+    direction,
+    referenceMemo: narration || invoiceNo,
+    countryCode: '',
+    exchangeRate: '',
+    valueDate,
+    rawLine,
+    provenance: {
+      paymentDate: fromText(rawLine, valueDateText, ':61: value date', 'high'),
+      customer: fromText(rawLine, customer, orderingPartyMatch ? ':86: /ORDP/ ordering party' : ':86: narration "BY/FROM NAME"', orderingPartyMatch ? 'high' : 'medium', narrationIndex),
+      invoiceNo: reference && reference !== 'NONREF'
+        ? fromText(rawLine, reference, ':61: customer reference', 'high')
+        : fromText(rawLine, invoiceNo, 'NONREF - :61: bank reference used', 'medium'),
+      amount: fromText(rawLine, amount, ':61: amount', 'high'),
+      direction: fromText(rawLine, mark, ':61: debit/credit mark', 'high', 4 + valueDateText.length),
+      referenceMemo: narration
+        ? fromText(rawLine, narration, ':86: narration', 'high', narrationIndex)
+        : fromText(rawLine, invoiceNo, 'No narration - reference used', 'low')
+    },
+    isValid: true
+  };
+}
+
+/**
+ * Parse an MT940 document. Files with several statements (:20: blocks) are read in order;
+ * the opening balance is taken from the first statement and the closing balance from the last.
+ */
+export function parseMT940Statement(rawData: string): StatementDocument {
+  const blocks = splitTagBlocks(rawData);
+  const transactions: ParsedTransaction[] = [];
+  let openingBalance: StatementBalance | undefined;
+  let closingBalance: StatementBalance | undefined;
+
+  blocks.forEach((block, index) => {
+    const value = block.lines[0];
+    switch (block.tag) {
+      case '60F':
+      case '60M':
+        openingBalance = openingBalance || parseBalance(value);
+        break;
+      case '62F':
+      case '62M':
+        closingBalance = parseBalance(value) || closingBalance;
+        break;
+      case '61': {
+        // Entries carry no currency of their own; use the one on the opening balance
+        const next = blocks[index + 1];
+        const currency = openingBalance?.amount.currency || DEFAULT_CURRENCY;
+        transactions.push(parseStatementEntry(block, next && next.tag === '86' ? next : null, currency));
+        break;
+      }
+    }
+  });
+
+  return { transactions, openingBalance, closingBalance };
+}
+
+export function parseMT940TransactionLine(line: string): ParsedTransaction {
+  return parseMT940Statement(line).transactions[0]
+    || createEmptyTransaction(line.trim(), 'Not an MT940 :61: statement line');
+}
+
+export const mt940Bank: BankFormat = {
+  id: 'MT940',
+  displayName: 'MT940 (SWIFT)',
+  sampleData,
+  // Tag lines such as ":61:2601190119C25000,00NTRF..." and ":86:CASH DEPOSIT..."
+  signatures: [/^:(?:20|25|28C|60[FM]|61|86|62[FM]|64|65):/],
+  // SWIFT envelope lines around the statement
+  isHeaderLine: line => /^(\{[1-5]:|-\}$)/.test(line),
+  parseLine: parseMT940TransactionLine,
+  parseStatement: parseMT940Statement,
+  dedupKey: t => t.invoiceNo
+};
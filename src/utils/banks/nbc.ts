@@ -0,0 +1,108 @@
+// NBC Bank statement format
+import type { ParsedTransaction } from '../transactionParser';
+import type { BankFormat } from './types';
+import { readPaymentDate } from '../dateNormalization';
+import { parseMoney } from '../money';
+import { fromText } from '../provenance';
+import { createEmptyTransaction } from './common';
+
+const sampleData = `19-01-2026	19-01-2026	CASH DEPOSIT BY JUMA ALLY HASSAN MC241EPW	FT26019QK7R2	0.00	25,000.00	1,250,000.00
+19-01-2026	20-01-2026	TRANSFER FROM NEEMA JOSEPH MREMA MC236EPW	FT26019RT4M8	0.00	40,000.00	1,290,000.00
+20-01-2026	20-01-2026	CASH DEPOSIT BY ZAWADI PETRO KIMARO MC255KLM	FT26020AB1C9	0.00	15,500.00	1,305,500.00`;
+
+const datePattern = /^\d{2}[-/]\d{2}[-/]\d{4}$/;
+const amountPattern = /^-?[\d,]+(?:\.\d{2})?$/;
+
+export function parseNBCTransactionLine(line: string): ParsedTransaction {
+  const trimmedLine = line.trim();
+  if (!trimmedLine) return createEmptyTransaction(line, 'Empty line');
+
+  try {
+    // NBC Format: Posting Date | Value Date | Narration | Reference | Debit | Credit | Balance
+    // Example: 19-01-2026	19-01-2026	CASH DEPOSIT BY JUMA ALLY HASSAN	FT26019QK7R2	0.00	25,000.00	1,250,000.00
+
+    // 1. Split into columns (tab separated; fall back to runs of 2+ spaces when tabs were lost)
+    let columns = trimmedLine.split('\t').map(c => c.trim()).filter(c => c);
+    if (columns.length < 7) {
+      columns = trimmedLine.split(/\s{2,}/).map(c => c.trim()).filter(c => c);
+    }
+
+    if (columns.length < 7 || !datePattern.test(columns[0])) {
+      return createEmptyTransaction(trimmedLine, 'Could not extract required fields from NBC line');
+    }
+
+    // 2. Dates (converted to DD/MM/YYYY)
+    const paymentDate = columns[0].replace(/-/g, '/');
+    const valueDate = datePattern.test(columns[1]) ? columns[1].replace(/-/g, '/') : '';
+
+    // 3. Trailing amount columns
+    const [debit, credit, balance] = columns.slice(-3);
+    if (![debit, credit, balance].every(a => amountPattern.test(a))) {
+      return createEmptyTransaction(trimmedLine, 'Could not extract amounts from NBC line');
+    }
+
+    const creditValue = parseFloat(credit.replace(/,/g, '')) || 0;
+    const debitValue = parseFloat(debit.replace(/,/g, '')) || 0;
+    if (creditValue === 0 && debitValue === 0) {
+      return createEmptyTransaction(trimmedLine, 'No debit or credit amount on NBC line');
+    }
+
+    // 4. Reference and narration
+    const invoiceNo = columns[columns.length - 4];
+    const narration = columns.slice(2, columns.length - 4).join(' ');
+
+    // 5. Payer name - "DEPOSIT BY NAME" / "TRANSFER FROM NAME"
+    const payerPattern = /\b(?:BY|FROM)\s+([A-Z]+(?:\s+[A-Z]+\b)*)/i;
+    const payerMatch = narration.match(payerPattern);
+    const customer = payerMatch ? payerMatch[1].trim() : '';
+
+    // Amount columns follow the reference, so search for them after it
+    const amountText = creditValue > 0 ? credit : debit;
+    const referenceIndex = trimmedLine.indexOf(invoiceNo);
+
+    return {
+      paymentDate,
+      ...readPaymentDate(paymentDate, 'DMY'),
+      customer,
+      paymentMethod: '', // Set by the payment method rules after parsing (paymentMethodRules.ts)
+      depositToAccountName: 'NBC Collection AC',
+      invoiceNo,
+      journalNo: '',
+      amount: parseMoney(amountText),
+      direction: creditValue > 0 ? 'Credit' : 'Debit',
+      referenceMemo: narration,
+      countryCode: '',
+      exchangeRate: '',
+      valueDate,
+      balance: parseMoney(balance),
+      rawLine: trimmedLine,
+      provenance: {
+        paymentDate: fromText(trimmedLine, columns[0], 'Posting date column', 'high'),
+        customer: payerMatch ? fromText(trimmedLine, customer, 'Narration "BY/FROM NAME"', 'medium') : undefined,
+        invoiceNo: fromText(trimmedLine, invoiceNo, 'Reference column', 'high'),
+        amount: fromText(trimmedLine, amountText, creditValue > 0 ? 'Credit column' : 'Debit column', 'high', referenceIndex + invoiceNo.length),
+        direction: fromText(trimmedLine, amountText, creditValue > 0 ? 'Credit column' : 'Debit column', 'high', referenceIndex + invoiceNo.length),
+        referenceMemo: fromText(trimmedLine, narration, 'Narration column', 'high'),
+        balance: fromText(trimmedLine, balance, 'Balance column', 'high', trimmedLine.lastIndexOf(balance))
+      },
+      failedRules: payerMatch ? [] : [{ field: 'customer', rule: 'Narration "BY/FROM NAME"' }],
+      isValid: true
+    };
+  } catch (error) {
+    return createEmptyTransaction(line, `Parse error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export const nbcBank: BankFormat = {
+  id: 'NBC',
+  displayName: 'NBC',
+  sampleData,
+  // "19-01-2026	19-01-2026" posting/value dates followed by debit, credit and balance columns
+  signatures: [/^\d{2}-\d{2}-\d{4}\s+\d{2}-\d{2}-\d{4}\s/, /[\d,]+\.\d{2}\s+[\d,]+\.\d{2}\s+[\d,]+\.\d{2}$/],
+  // Records start with both dates (or the posting date alone, wrapped before the value date); a wrapped
+  // line that begins with a single date followed by text continues the record
+  recordStart: /^\d{2}[-/]\d{2}[-/]\d{4}(?:\s+\d{2}[-/]\d{2}[-/]\d{4}\s|\s*$)/,
+  recordEnd: /[\d,]+\.\d{2}\s+[\d,]+\.\d{2}\s+-?[\d,]+\.\d{2}$/,
+  parseLine: parseNBCTransactionLine,
+  dedupKey: t => t.invoiceNo
+};
@@ -0,0 +1,190 @@
+// NMB Bank statement format
+import type { FailedRule, ParsedTransaction, TransactionDirection, TransactionProvenance } from '../transactionParser';
+import type { BankFormat } from './types';
+import { readPaymentDate } from '../dateNormalization';
+import { parseMoney, zeroMoney } from '../money';
+import { assumed, fromMatch, fromText } from '../provenance';
+
+const sampleData = `14  Jan 2026	14  Jan 2026		101 - NMB Head Office - Cash Deposit Agency banking - 1401 12 19 37 agency @20710095898@TPS900 Trx ID PS2076699419  Ter ID 2075149572   Description 111111111!! From SAVCOM LIMITED COLLECTION ACC => MISHONI NDULENYA NZIGE	101AGD126014A7BL	5000		TZS 1169000.00
+15  Jan 2026	15  Jan 2026		102 - NMB Dar es Salaam - Cash Deposit Agency banking - 1402 15 22 41 agency @20810095899@TPS901 Trx ID PS2076699420  Ter ID 2075149573   Description 222222222!! From KARIAKOO TRADERS ACC => JOHN MWAMBA PETER	102AGD126015B8CM	7500		TZS 1176500.00
+15  Jan 2026	15  Jan 2026		103 - NMB Arusha Branch - Cash Deposit Agency banking - 1403 18 25 44 agency @20910095900@TPS902 Trx ID PS2076699421  Ter ID 2075149574   Description 333333333!! From KILIMANJARO COOP ACC => AMINA HASSAN JUMA	103AGD126015C9DN	12000		TZS 1188500.00
+16  Jan 2026	16  Jan 2026		104 - NMB Mwanza Office - Cash Deposit Agency banking - 1404 21 28 47 agency @21010095901@TPS903 Trx ID PS2076699422  Ter ID 2075149575   Description 444444444!! From LAKE ZONE SUPPLIERS ACC => PETER JOHN MAKUNDI	104AGD126016D0EP	3500		TZS 1192000.00
+16  Jan 2026	16  Jan 2026		105 - NMB Dodoma Central - Cash Deposit Agency banking - 1405 24 31 50 agency @21110095902@TPS904 Trx ID PS2076699423  Ter ID 2075149576   Description 555555555!! From CENTRAL MARKET TRADERS => FATUMA ALI MOHAMED	105AGD126016E1FQ	9000		TZS 1201000.00`;
+
+export function parseTransactionLine(line: string): ParsedTransaction {
+  const trimmedLine = line.trim();
+
+  if (!trimmedLine) {
+    return {
+      paymentDate: '',
+      customer: '',
+      paymentMethod: '',
+      depositToAccountName: '',
+      invoiceNo: '',
+      journalNo: '',
+      amount: zeroMoney(),
+      direction: 'Credit',
+      referenceMemo: '',
+      countryCode: '',
+      exchangeRate: '',
+      rawLine: line,
+      isValid: false,
+      errorMessage: 'Empty line'
+    };
+  }
+
+  try {
+    // Extract date - pattern like "14  Jan 2026" or "14 Jan 2026"
+    const datePattern = /(\d{1,2}\s+[A-Za-z]{3}\s+\d{4})/;
+    const dateMatch = trimmedLine.match(datePattern);
+    const paymentDate = dateMatch ? dateMatch[1].replace(/\s+/g, ' ').trim() : '';
+    const provenance: TransactionProvenance = {
+      paymentDate: fromMatch(dateMatch, 'First "DD Mon YYYY" date', 'high')
+    };
+    const failedRules: FailedRule[] = [];
+    if (!dateMatch) failedRules.push({ field: 'paymentDate', rule: 'First "DD Mon YYYY" date' });
+
+    // Extract Description reference ID - pattern like "Description 111111111" or "Description 111111111!!"
+    const descriptionPattern = /Description\s+(\d+)/i;
+    const descriptionMatch = trimmedLine.match(descriptionPattern);
+    const invoiceNo = descriptionMatch ? descriptionMatch[1] : '';
+    provenance.invoiceNo = fromMatch(descriptionMatch, '"Description <digits>"', 'high');
+    if (!descriptionMatch) failedRules.push({ field: 'invoiceNo', rule: '"Description <digits>"' });
+
+    // Extract User ID - pattern like "@20710095898@" or account number
+    const userIdPattern = /@(\d+)@/;
+    const userIdMatch = trimmedLine.match(userIdPattern);
+    let userId = userIdMatch ? userIdMatch[1] : '';
+
+    // Alternative: Extract from "=> NAME" pattern for user name
+    const userNamePattern = /=>\s*([A-Z\s]+?)(?:\t|$)/i;
+    const userNameMatch = trimmedLine.match(userNamePattern);
+    const userName = userNameMatch ? userNameMatch[1].trim() : '';
+
+    if (!userId && userName) {
+      userId = userName;
+    }
+    provenance.customer = userNameMatch ? fromText(trimmedLine, userName, '"=> NAME" payer', 'medium', userNameMatch.index) : undefined;
+    provenance.referenceMemo = userIdMatch
+      ? fromMatch(userIdMatch, 'Agency user id "@<digits>@"', 'high')
+      : userName
+        ? fromText(trimmedLine, userName, 'User id missing - payer name used', 'low', userNameMatch?.index)
+        : fromMatch(descriptionMatch, 'User id missing - description reference used', 'low');
+    if (!userIdMatch) failedRules.push({ field: 'referenceMemo', rule: 'Agency user id "@<digits>@"' });
+    if (!userNameMatch) failedRules.push({ field: 'customer', rule: '"=> NAME" payer' });
+
+    // Extract amount - look for standalone number before TZS balance
+    const amountPattern = /\t(\d+(?:,\d{3})*(?:\.\d{2})?)\t+(?:TZS|$)/i;
+    const amountMatch = trimmedLine.match(amountPattern);
+    let amount = amountMatch ? amountMatch[1] : '';
+    provenance.amount = fromMatch(amountMatch, 'Amount column before TZS balance', 'high');
+
+    // Alternative amount pattern - number before TZS balance
+    if (!amount) {
+      failedRules.push({ field: 'amount', rule: 'Amount column before TZS balance' });
+      const altAmountPattern = /\t(\d+(?:,\d{3})*(?:\.\d{2})?)\s*\t*\s*TZS/i;
+      const altMatch = trimmedLine.match(altAmountPattern);
+      amount = altMatch ? altMatch[1] : '';
+      provenance.amount = fromMatch(altMatch, 'Number before TZS balance (fallback)', 'medium');
+    }
+
+    // If still no amount, try to find deposited amount in description
+    if (!amount) {
+      failedRules.push({ field: 'amount', rule: 'Number before TZS balance (fallback)' });
+      const depositPattern = /(\d+(?:,\d{3})*(?:\.\d{2})?)\s*(?:\t|TZS)/;
+      const depositMatch = trimmedLine.match(depositPattern);
+      if (depositMatch) {
+        amount = depositMatch[1];
+        provenance.amount = fromMatch(depositMatch, 'First number in line (last-resort fallback)', 'low');
+      } else {
+        failedRules.push({ field: 'amount', rule: 'First number in line (last-resort fallback)' });
+      }
+    }
+
+    // Credit and debit columns before the TZS balance - "\t5000\t\tTZS ..." is a deposit, "\t\t5000\tTZS ..." a withdrawal
+    const columnsMatch = trimmedLine.match(/\t([\d,]*(?:\.\d{2})?)\t([\d,]*(?:\.\d{2})?)\t\s*TZS/i);
+    const direction: TransactionDirection = columnsMatch && !columnsMatch[1] && columnsMatch[2] ? 'Debit' : 'Credit';
+    provenance.direction = columnsMatch
+      ? fromMatch(columnsMatch, direction === 'Debit' ? 'Debit column' : 'Credit column', 'high', direction === 'Debit' ? 2 : 1)
+      : assumed('No credit/debit columns - credit assumed', 'low');
+    if (!columnsMatch) failedRules.push({ field: 'direction', rule: 'Credit/debit columns before TZS balance' });
+
+    // Running balance after the transaction - "TZS 1169000.00" at the end of the line
+    const balanceMatch = trimmedLine.match(/TZS\s+(-?[\d,]+(?:\.\d{2})?)\s*$/i);
+    provenance.balance = fromMatch(balanceMatch, 'Balance after "TZS"', 'high');
+    if (!balanceMatch) failedRules.push({ field: 'balance', rule: 'Balance after "TZS"' });
+
+    // Extract Product Name/Branch - "101 - NMB Head Office -": branch code and branch/office name
+    const productNamePattern = /(\d{3})\s*-\s*([^-]+)\s*-/;
+    const productNameMatch = trimmedLine.match(productNamePattern);
+    const branchCode = productNameMatch ? productNameMatch[1] : undefined;
+    const depositToAccountName = productNameMatch ? productNameMatch[2].trim() : 'NMB Collection AC';
+    provenance.branchCode = fromMatch(productNameMatch, 'Branch code "NNN -"', 'high');
+    provenance.depositToAccountName = productNameMatch
+      ? fromText(trimmedLine, depositToAccountName, 'Branch name after "NNN -"', 'medium', productNameMatch.index)
+      : assumed('Default collection account');
+    if (!productNameMatch) failedRules.push({ field: 'depositToAccountName', rule: 'Branch name after "NNN -"' });
+
+    // Customer name - will be populated from database mapping
+    const customer = userName || '';
+
+    // Reference memo - combine user ID and description snippet
+    const referenceMemo = userId ? `${userId}` : invoiceNo;
+
+    const isValid = !!(invoiceNo || amount || paymentDate);
+
+    return {
+      paymentDate,
+      ...readPaymentDate(paymentDate, 'DMY'),
+      customer,
+      paymentMethod: '', // Set by the payment method rules after parsing (paymentMethodRules.ts)
+      depositToAccountName,
+      branchCode,
+      invoiceNo,
+      journalNo: '', // Can be auto-generated or left empty
+      amount: parseMoney(amount),
+      direction,
+      referenceMemo,
+      countryCode: '', // Will be set to empty or "TZ" based on configuration
+      exchangeRate: '', // Will be set to empty or "1" based on configuration
+      balance: balanceMatch ? parseMoney(balanceMatch[1]) : undefined,
+      rawLine: trimmedLine,
+      provenance,
+      failedRules,
+      isValid,
+      errorMessage: isValid ? undefined : 'Could not extract required fields'
+    };
+  } catch (error) {
+    return {
+      paymentDate: '',
+      customer: '',
+      paymentMethod: '',
+      depositToAccountName: '',
+      invoiceNo: '',
+      journalNo: '',
+      amount: zeroMoney(),
+      direction: 'Credit',
+      referenceMemo: '',
+      countryCode: '',
+      exchangeRate: '',
+      rawLine: trimmedLine,
+      isValid: false,
+      errorMessage: `Parse error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+}
+
+export const nmbBank: BankFormat = {
+  id: 'NMB',
+  displayName: 'NMB',
+  sampleData,
+  // "14  Jan 2026" at the start of the line plus the "@20710095898@" agency account
+  signatures: [/^\d{1,2}\s+[A-Za-z]{3}\s+\d{4}\b/, /@\d+@/],
+  // Records start with the transaction and value dates (or the transaction date alone, wrapped before
+  // the value date); wrapped "Description ... => NAME" fragments and a value date followed by text do not
+  recordStart: /^\d{1,2}\s+[A-Za-z]{3}\s+\d{4}(?:\s+\d{1,2}\s+[A-Za-z]{3}\s+\d{4}\b|\s*$)/,
+  // and a record is finished once the "TZS 1169000.00" balance has been read
+  recordEnd: /TZS\s+-?[\d,]+(?:\.\d{2})?$/i,
+  parseLine: parseTransactionLine,
+  dedupKey: t => t.invoiceNo
+};
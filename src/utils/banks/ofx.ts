@@ -0,0 +1,185 @@
+// OFX / QFX statement format - OFX 1.x (SGML) and 2.x (XML) bank statement downloads
+import type { ParsedTransaction, StatementBalance } from '../transactionParser';
+import type { BankFormat, StatementDocument } from './types';
+import { readPaymentDate } from '../dateNormalization';
+import { absMoney, DEFAULT_CURRENCY, parseMoney } from '../money';
+import { fromText } from '../provenance';
+import { createEmptyTransaction } from './common';
+import { parseXml, xmlDescendants, xmlText, XmlElement } from './xml';
+
+const sampleData = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+SECURITY:NONE
+ENCODING:USASCII
+CHARSET:1252
+COMPRESSION:NONE
+OLDFILEUID:NONE
+NEWFILEUID:NONE
+
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<TRNUID>1
+<STMTRS>
+<CURDEF>TZS
+<BANKACCTFROM>
+<BANKID>NLCBTZTX
+<ACCTID>0150123456789
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20260119
+<DTEND>20260120
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20260119101500[+3:EAT]
+<TRNAMT>25000.00
+<FITID>202601190001
+<REFNUM>FT26019QK7R2
+<NAME>JUMA ALLY HASSAN
+<MEMO>CASH DEPOSIT MC241EPW
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20260119143000[+3:EAT]
+<TRNAMT>40000.00
+<FITID>202601190002
+<REFNUM>FT26019RT4M8
+<NAME>NEEMA JOSEPH MREMA
+<MEMO>SCHOOL FEES MC236EPW
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20260120080000[+3:EAT]
+<TRNAMT>-5000.00
+<FITID>202601200003
+<NAME>MONTHLY LEDGER FEE
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20260120091000[+3:EAT]
+<TRNAMT>15500.00
+<FITID>202601200004
+<REFNUM>FT26020AB1C9
+<NAME>ZAWADI PETRO KIMARO
+<MEMO>MC255KLM
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>1325500.00
+<DTASOF>20260120235959[+3:EAT]
+</LEDGERBAL>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>`;
+
+// OFX aggregate and element tags (upper case, SGML or XML)
+const ofxTagPattern = /^<\/?(?:OFX|SIGNONMSGSRSV1|SONRS|STATUS|CODE|SEVERITY|DTSERVER|LANGUAGE|FI|ORG|FID|BANKMSGSRSV1|CREDITCARDMSGSRSV1|STMTTRNRS|CCSTMTTRNRS|TRNUID|STMTRS|CCSTMTRS|CURDEF|BANKACCTFROM|CCACCTFROM|BANKID|BRANCHID|ACCTID|ACCTTYPE|BANKTRANLIST|DTSTART|DTEND|STMTTRN|TRNTYPE|DTPOSTED|DTUSER|DTAVAIL|TRNAMT|FITID|CHECKNUM|REFNUM|NAME|PAYEE|MEMO|LEDGERBAL|AVAILBAL|BALAMT|DTASOF)>/;
+
+/**
+ * Convert an OFX date ("20260119101500[+3:EAT]") to DD/MM/YYYY
+ */
+function convertOfxDate(value: string): string {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : '';
+}
+
+/**
+ * Build a transaction from one STMTTRN aggregate
+ */
+function parseStatementTransaction(transaction: XmlElement, rawLine: string, currency: string): ParsedTransaction {
+  const fitId = xmlText(transaction, 'FITID');
+  const paymentDate = convertOfxDate(xmlText(transaction, 'DTPOSTED'));
+  const amountText = xmlText(transaction, 'TRNAMT');
+
+  if (!fitId || !paymentDate || !amountText) {
+    return createEmptyTransaction(rawLine, 'Could not extract FITID, DTPOSTED or TRNAMT from OFX transaction');
+  }
+
+  // TRNAMT is signed: positive amounts are money received, negative amounts money paid out
+  const amount = parseMoney(amountText, currency);
+  if (amount.minorUnits === 0) {
+    return createEmptyTransaction(rawLine, 'No amount on OFX transaction');
+  }
+
+  const name = xmlText(transaction, 'NAME') || xmlText(transaction, 'PAYEE/NAME');
+  const memo = xmlText(transaction, 'MEMO');
+  const refNum = xmlText(transaction, 'REFNUM');
+  const checkNum = xmlText(transaction, 'CHECKNUM');
+
+  return {
+    paymentDate,
+    ...readPaymentDate(paymentDate, 'DMY'),
+    customer: name,
+    paymentMethod: '', // Set by the payment method rules after parsing (paymentMethodRules.ts)
+    depositToAccountName: 'OFX Collection AC',
+    invoiceNo: refNum || checkNum || fitId,
+    journalNo: '',
+    amount: absMoney(amount),
+    direction: amount.minorUnits > 0 ? 'Credit' : 'Debit',
+    referenceMemo: memo || name,
+    countryCode: '',
+    exchangeRate: '',
+    fitId,
+    rawLine,
+    provenance: {
+      paymentDate: fromText(rawLine, xmlText(transaction, 'DTPOSTED'), 'DTPOSTED', 'high'),
+      customer: fromText(rawLine, name, 'NAME', 'high'),
+      invoiceNo: refNum
+        ? fromText(rawLine, refNum, 'REFNUM', 'high')
+        : fromText(rawLine, checkNum || fitId, checkNum ? 'CHECKNUM' : 'No REFNUM - FITID used', 'medium'),
+      amount: fromText(rawLine, amountText, 'TRNAMT', 'high'),
+      direction: fromText(rawLine, amountText, 'Sign of TRNAMT', 'high'),
+      referenceMemo: memo ? fromText(rawLine, memo, 'MEMO', 'high') : fromText(rawLine, name, 'No MEMO - NAME used', 'low')
+    },
+    isValid: true
+  };
+}
+
+/**
+ * Parse an OFX/QFX document. OFX reports only the ledger (closing) balance.
+ */
+export function parseOFXStatement(rawData: string): StatementDocument {
+  // Drop the OFX 1.x plain-text header; parseXml tolerates the unclosed SGML leaf tags
+  const bodyStart = rawData.search(/<OFX>/i);
+  const document = parseXml(bodyStart === -1 ? rawData : rawData.substring(bodyStart));
+
+  // Source text of each STMTTRN, collapsed to one line for the failed records view
+  const transactionSources = rawData.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+  const currency = xmlDescendants(document, 'CURDEF')[0]?.text || DEFAULT_CURRENCY;
+  const transactions = xmlDescendants(document, 'STMTTRN').map((transaction, index) =>
+    parseStatementTransaction(transaction, (transactionSources[index] || '').replace(/\s*\r?\n\s*/g, ' ').trim(), currency)
+  );
+
+  let closingBalance: StatementBalance | undefined;
+  const ledgerBalance = xmlDescendants(document, 'LEDGERBAL').pop();
+  if (ledgerBalance) {
+    closingBalance = {
+      date: convertOfxDate(xmlText(ledgerBalance, 'DTASOF')),
+      amount: parseMoney(xmlText(ledgerBalance, 'BALAMT'), currency)
+    };
+  }
+
+  return { transactions, closingBalance };
+}
+
+export function parseOFXTransactionLine(line: string): ParsedTransaction {
+  return parseOFXStatement(line).transactions[0]
+    || createEmptyTransaction(line.trim(), 'Not an OFX STMTTRN block');
+}
+
+export const ofxBank: BankFormat = {
+  id: 'OFX',
+  displayName: 'OFX / QFX',
+  sampleData,
+  signatures: [ofxTagPattern],
+  // OFX 1.x "KEY:VALUE" header and OFX 2.x XML processing instructions
+  isHeaderLine: line => /^(?:OFXHEADER|DATA|VERSION|SECURITY|ENCODING|CHARSET|COMPRESSION|OLDFILEUID|NEWFILEUID):/.test(line) || /^<\?OFX\b/.test(line),
+  parseLine: parseOFXTransactionLine,
+  parseStatement: parseOFXStatement,
+  // FITID is the bank's unique id for the transaction and survives re-downloads of overlapping periods
+  dedupKey: t => t.fitId || t.invoiceNo
+};
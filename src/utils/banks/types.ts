@@ -0,0 +1,26 @@
+// Bank Format Types - contract every statement format module implements
+import type { ParsedTransaction, StatementBalance } from '../transactionParser';
+
+// Identifier of a registered bank format (e.g. "NMB", "CRDB")
+export type BankId = string;
+
+// Result of parsing a whole statement document (formats whose records span several lines)
+export interface StatementDocument {
+  transactions: ParsedTransaction[];
+  openingBalance?: StatementBalance;
+  closingBalance?: StatementBalance;
+}
+
+export interface BankFormat {
+  id: BankId;                                              // Stable identifier stored on ParseResult
+  displayName: string;                                     // Label shown in the bank type picker
+  sampleData: string;                                      // Example statement lines for "Load Sample"
+  signatures: RegExp[];                                    // Line patterns used for format auto-detection
+  isHeaderLine?: (line: string) => boolean;                // Column header rows to skip instead of reporting as failed
+  recordStart?: RegExp;                                    // First line of a record; other lines are joined onto the unfinished record before them.
+                                                           // Must not match a wrapped line that begins with a later date column (e.g. the value date)
+  recordEnd?: RegExp;                                      // A finished record (e.g. ending in the balance), which takes no more lines
+  parseLine: (line: string) => ParsedTransaction;          // Parses one raw statement line
+  parseStatement?: (rawData: string) => StatementDocument; // Parses the whole document; used instead of parseLine when set
+  dedupKey: (transaction: ParsedTransaction) => string;    // Value stored as ref_id and used for duplicate checks
+}
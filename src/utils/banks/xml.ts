@@ -0,0 +1,117 @@
+// Minimal XML reader for statement files (camt.053, OFX 2.x).
+// Does not depend on DOMParser so statements can also be parsed off the main thread.
+
+export interface XmlElement {
+  name: string;                          // Local name, namespace prefix removed
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;                          // Concatenated direct text content, trimmed
+}
+
+const tokenPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<![^>]*>|<(\/?)([A-Za-z_][\w:.-]*)([^>]*?)(\/?)>|([^<]+)/g;
+const attributePattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.substring(colon + 1);
+}
+
+/**
+ * Parse an XML document into an element tree rooted at a synthetic "#document" element.
+ * Unmatched closing tags close every element opened after the matching one, and unclosed
+ * leaf elements end at the next tag (SGML-style leniency).
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let match: RegExpExecArray | null;
+
+  tokenPattern.lastIndex = 0;
+  while ((match = tokenPattern.exec(xml)) !== null) {
+    const [, cdata, closing, tagName, attributeText, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (text !== undefined || cdata !== undefined) {
+      const value = cdata !== undefined ? cdata : decodeEntities(text);
+      if (value.trim()) {
+        current.text = (current.text ? `${current.text} ` : '') + value.trim();
+      }
+      continue;
+    }
+    if (!tagName) continue;
+
+    const name = localName(tagName);
+
+    // SGML (OFX 1.x) leaf elements have no closing tag: an element holding text ends at the next tag
+    if (stack.length > 1 && current.text && current.children.length === 0) {
+      stack.pop();
+    }
+
+    if (closing) {
+      const index = stack.map(e => e.name).lastIndexOf(name);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    let attributeMatch: RegExpExecArray | null;
+    attributePattern.lastIndex = 0;
+    while ((attributeMatch = attributePattern.exec(attributeText)) !== null) {
+      attributes[localName(attributeMatch[1])] = decodeEntities(attributeMatch[2] ?? attributeMatch[3]);
+    }
+
+    const element: XmlElement = { name, attributes, children: [], text: '' };
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Follow a child path such as "BookgDt/Dt"; returns null when any step is missing
+ */
+export function xmlChild(element: XmlElement | null, path: string): XmlElement | null {
+  let current = element;
+  for (const name of path.split('/')) {
+    if (!current) return null;
+    current = current.children.find(c => c.name === name) || null;
+  }
+  return current;
+}
+
+/**
+ * Text of the element at a child path ('' when missing)
+ */
+export function xmlText(element: XmlElement | null, path: string): string {
+  return xmlChild(element, path)?.text || '';
+}
+
+/**
+ * Every descendant element with the given name, in document order
+ */
+export function xmlDescendants(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const child of element.children) {
+    if (child.name === name) {
+      found.push(child);
+    }
+    found.push(...xmlDescendants(child, name));
+  }
+  return found;
+}
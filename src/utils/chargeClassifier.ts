@@ -0,0 +1,87 @@
+// Charges Classifier - recognises bank charge, levy and tax narrations (SMS alert fees, agency
+// commission, government levy, VAT on charges) so they are exported as expenses, not customer payments
+import type { ParsedTransaction } from './transactionParser';
+import { fromMatch } from './provenance';
+
+export type ChargeCategory = 'sms-fee' | 'agency-commission' | 'government-levy' | 'vat';
+
+// QuickBooks expense account for each charge category
+export type ChargeAccounts = Record<ChargeCategory, string>;
+
+// Checked in this order, so "VAT ON SMS CHARGES" is VAT and "LEVY ON AGENCY COMMISSION" a levy
+export const CHARGE_CATEGORIES: { value: ChargeCategory; label: string; pattern: RegExp }[] = [
+  { value: 'vat', label: 'VAT', pattern: /\b(?:VAT|value\s+added\s+tax)\b/i },
+  { value: 'government-levy', label: 'Government levy', pattern: /\b(?:levy|excise\s+duty)\b/i },
+  { value: 'sms-fee', label: 'SMS fee', pattern: /\bSMS\s*(?:alert|notification|banking)?\s*(?:fees?|charges?|alerts?)\b/i },
+  { value: 'agency-commission', label: 'Agency commission', pattern: /\bagen(?:cy|t)\b[^\t]*?\b(?:commission|comm|fees?|charges?)\b/i }
+];
+
+export const DEFAULT_CHARGE_ACCOUNTS: ChargeAccounts = {
+  'sms-fee': 'Bank Charges:SMS Alert Fees',
+  'agency-commission': 'Bank Charges:Agency Commission',
+  'government-levy': 'Taxes:Government Levy',
+  'vat': 'Taxes:VAT on Bank Charges'
+};
+
+const STORAGE_KEY = 'charge_accounts';
+
+export function getChargeLabel(category: ChargeCategory): string {
+  return CHARGE_CATEGORIES.find(c => c.value === category)?.label || category;
+}
+
+/**
+ * Tag a charge line: the first category whose narration is on the line. Only debits, or rows whose
+ * direction the parser had to assume, are charges - a credited charge is a refund and stays a credit.
+ * The memo becomes the narration (the tab-separated column holding it) and no customer is matched.
+ */
+export function classifyCharge(transaction: ParsedTransaction): void {
+  if (transaction.direction !== 'Debit' && transaction.provenance?.direction?.confidence !== 'low') return;
+
+  for (const category of CHARGE_CATEGORIES) {
+    const match = transaction.rawLine.match(category.pattern);
+    if (!match || match.index === undefined) continue;
+
+    const columnStart = transaction.rawLine.lastIndexOf('\t', match.index) + 1;
+    const columnEnd = transaction.rawLine.indexOf('\t', match.index);
+    const narration = transaction.rawLine
+      .slice(columnStart, columnEnd === -1 ? undefined : columnEnd)
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (transaction.direction !== 'Debit') {
+      transaction.direction = 'Debit';
+      transaction.provenance = { ...transaction.provenance, direction: fromMatch(match, `${category.label} narration - charges are debits`, 'medium', 0) };
+    }
+    transaction.chargeCategory = category.value;
+    transaction.customer = '';
+    transaction.referenceMemo = narration;
+    transaction.provenance = {
+      ...transaction.provenance,
+      chargeCategory: fromMatch(match, `${category.label} narration`, 'high', 0),
+      customer: undefined,
+      referenceMemo: { rule: `${category.label} narration column`, span: [columnStart, columnEnd === -1 ? transaction.rawLine.length : columnEnd], confidence: 'high' }
+    };
+    return;
+  }
+}
+
+/**
+ * Saved expense accounts, with the defaults for any category not yet set
+ */
+export function getChargeAccounts(): ChargeAccounts {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) {
+    return { ...DEFAULT_CHARGE_ACCOUNTS };
+  }
+
+  try {
+    return { ...DEFAULT_CHARGE_ACCOUNTS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('[ChargeAccounts] Could not read saved accounts:', error);
+    return { ...DEFAULT_CHARGE_ACCOUNTS };
+  }
+}
+
+export function saveChargeAccounts(accounts: ChargeAccounts): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(accounts));
+}
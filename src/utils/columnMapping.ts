@@ -0,0 +1,219 @@
+// Column Mapping - read structured (Excel/CSV) statements as rows and map their columns to transaction fields
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { FieldProvenance, ParsedTransaction, TransactionDirection } from './transactionParser';
+import { BankId, getBankFormat } from './banks';
+import { createEmptyTransaction } from './banks/common';
+import { detectDateOrder, readPaymentDate } from './dateNormalization';
+import { absMoney, parseMoney } from './money';
+
+export type MappableField =
+  | 'paymentDate'
+  | 'invoiceNo'
+  | 'amount'
+  | 'debit'
+  | 'customer'
+  | 'referenceMemo'
+  | 'depositToAccountName'
+  | 'payerPhone'
+  | 'balance';
+
+export const MAPPABLE_FIELDS: { key: MappableField; label: string; required?: boolean }[] = [
+  { key: 'paymentDate', label: 'Payment Date', required: true },
+  { key: 'amount', label: 'Amount (credit)', required: true },
+  { key: 'debit', label: 'Debit / Withdrawn' },
+  { key: 'invoiceNo', label: 'Reference / Invoice No' },
+  { key: 'customer', label: 'Payer / Customer' },
+  { key: 'referenceMemo', label: 'Narration / Memo' },
+  { key: 'depositToAccountName', label: 'Branch / Deposit Account' },
+  { key: 'payerPhone', label: 'Payer Phone' },
+  { key: 'balance', label: 'Balance' }
+];
+
+// Field -> zero-based column index
+export type ColumnMapping = Partial<Record<MappableField, number>>;
+
+export interface StatementSheet {
+  fileName: string;
+  rows: string[][];      // Every non-empty row of the first sheet, header rows included
+}
+
+const STORAGE_KEY = 'statement_column_mappings';
+
+// Header keywords used to suggest a mapping for a new layout
+const HEADER_HINTS: Record<MappableField, RegExp> = {
+  paymentDate: /(posting|transaction|trans|value|completion)?\s*date|time/i,
+  amount: /credit|paid\s*in|deposit|amount|received/i,
+  debit: /debit|withdra|paid\s*out/i,
+  invoiceNo: /ref|receipt|transaction\s*id|txn\s*id|cheque/i,
+  customer: /name|payer|sender|customer|from/i,
+  referenceMemo: /narration|description|details|memo|remarks|particulars/i,
+  depositToAccountName: /branch/i,
+  payerPhone: /msisdn|phone|mobile/i,
+  balance: /balance/i
+};
+
+/**
+ * Read the first sheet of an Excel workbook, or a CSV/TSV file, as rows of strings
+ */
+export async function readStatementFile(file: File): Promise<StatementSheet> {
+  const name = file.name.toLowerCase();
+  let rows: string[][];
+
+  if (name.endsWith('.xlsx') || name.endsWith('.xls')) {
+    const buffer = await file.arrayBuffer();
+    const workbook = XLSX.read(buffer);
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    rows = XLSX.utils.sheet_to_json<string[]>(worksheet, { header: 1, raw: false, defval: '' });
+  } else {
+    const text = await file.text();
+    rows = Papa.parse<string[]>(text, { skipEmptyLines: true }).data;
+  }
+
+  return {
+    fileName: file.name,
+    rows: rows
+      .map(row => row.map(cell => String(cell ?? '').trim()))
+      .filter(row => row.some(cell => cell))
+  };
+}
+
+/**
+ * Guess which row holds the column headers: the first row (of the first 20) with the most filled cells.
+ * Statement exports often start with a few lines of account details above the table.
+ */
+export function findHeaderRow(rows: string[][]): number {
+  const candidates = rows.slice(0, 20);
+  const filled = candidates.map(row => row.filter(cell => cell).length);
+  const max = Math.max(0, ...filled);
+  return Math.max(0, filled.indexOf(max));
+}
+
+/**
+ * Normalized header text identifying a statement layout
+ */
+export function headerSignature(headers: string[]): string {
+  return headers.map(h => h.toLowerCase().replace(/\s+/g, ' ').trim()).join('|');
+}
+
+/**
+ * Suggest a mapping from header names
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  for (const { key } of MAPPABLE_FIELDS) {
+    const index = headers.findIndex((header, i) => !used.has(i) && HEADER_HINTS[key].test(header));
+    if (index !== -1) {
+      mapping[key] = index;
+      used.add(index);
+    }
+  }
+
+  return mapping;
+}
+
+function loadAllMappings(): Record<string, ColumnMapping> {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(stored);
+  } catch (error) {
+    console.error('[ColumnMapping] Could not read saved mappings:', error);
+    return {};
+  }
+}
+
+/**
+ * Get the mapping remembered for this bank and header layout, if any
+ */
+export function getSavedColumnMapping(bankType: BankId, signature: string): ColumnMapping | null {
+  return loadAllMappings()[`${bankType}::${signature}`] || null;
+}
+
+/**
+ * Remember the mapping for this bank and header layout
+ */
+export function saveColumnMapping(bankType: BankId, signature: string, mapping: ColumnMapping): void {
+  const all = loadAllMappings();
+  all[`${bankType}::${signature}`] = mapping;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+}
+
+/**
+ * Convert data rows into transactions using a column mapping
+ */
+export function mapRowsToTransactions(
+  rows: string[][],
+  mapping: ColumnMapping,
+  bankType: BankId
+): ParsedTransaction[] {
+  const bank = getBankFormat(bankType);
+  const cell = (row: string[], field: MappableField) =>
+    mapping[field] !== undefined ? (row[mapping[field] as number] || '').trim() : '';
+
+  // A mapped column's value and its position in the tab-joined rawLine
+  const columnProvenance = (row: string[], field: MappableField): FieldProvenance | undefined => {
+    const index = mapping[field];
+    if (index === undefined || !row[index]) return undefined;
+    const start = row.slice(0, index).reduce((offset, c) => offset + c.length + 1, 0);
+    return { rule: `Mapped column ${index + 1}`, span: [start, start + row[index].length], confidence: 'high' };
+  };
+
+  // Spreadsheets carry no day/month convention, so settle it from the whole date column
+  const dateOrder = detectDateOrder(rows.map(row => cell(row, 'paymentDate')));
+
+  return rows.map(row => {
+    const rawLine = row.join('\t');
+    const paymentDate = cell(row, 'paymentDate');
+    const credit = parseMoney(cell(row, 'amount'));
+    const debit = absMoney(parseMoney(cell(row, 'debit')));
+
+    // Separate debit column, or a single signed amount column where negatives are money out
+    const direction: TransactionDirection = credit.minorUnits > 0 ? 'Credit' : 'Debit';
+    const amount = credit.minorUnits > 0 ? credit : debit.minorUnits > 0 ? debit : absMoney(credit);
+
+    if (!paymentDate || amount.minorUnits <= 0) {
+      return createEmptyTransaction(rawLine, !paymentDate ? 'No date in mapped column' : 'No amount in mapped columns');
+    }
+
+    const invoiceNo = cell(row, 'invoiceNo');
+    const payerPhone = cell(row, 'payerPhone');
+    const amountProvenance = columnProvenance(row, credit.minorUnits !== 0 ? 'amount' : 'debit');
+
+    return {
+      paymentDate,
+      ...readPaymentDate(paymentDate, dateOrder),
+      customer: cell(row, 'customer'),
+      paymentMethod: '', // Set by the payment method rules after parsing (paymentMethodRules.ts)
+      depositToAccountName: cell(row, 'depositToAccountName') || `${bank.displayName} Collection AC`,
+      invoiceNo,
+      journalNo: '',
+      amount,
+      direction,
+      referenceMemo: cell(row, 'referenceMemo') || invoiceNo,
+      countryCode: '',
+      exchangeRate: '',
+      balance: cell(row, 'balance') ? parseMoney(cell(row, 'balance'), amount.currency) : undefined,
+      payerPhone: payerPhone || undefined,
+      rawLine,
+      provenance: {
+        paymentDate: columnProvenance(row, 'paymentDate'),
+        customer: columnProvenance(row, 'customer'),
+        depositToAccountName: columnProvenance(row, 'depositToAccountName'),
+        invoiceNo: columnProvenance(row, 'invoiceNo'),
+        amount: amountProvenance,
+        direction: amountProvenance,
+        referenceMemo: cell(row, 'referenceMemo')
+          ? columnProvenance(row, 'referenceMemo')
+          : invoiceNo ? { ...columnProvenance(row, 'invoiceNo'), rule: 'No memo column - reference used', confidence: 'low' } : undefined,
+        payerPhone: columnProvenance(row, 'payerPhone')
+      },
+      isValid: true
+    };
+  });
+}
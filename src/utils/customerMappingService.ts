@@ -13,9 +13,10 @@ const CACHE_EXPIRY_KEY = 'customer_mappings_cache_expiry';
 const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
 
 /**
- * Parse CSV data into CustomerMapping objects
+ * Parse CSV data into CustomerMapping objects (Member ID, Name, Phone, Transaction No columns
+ * after a header row - the layout of the Google Sheet export)
  */
-function parseCSV(csvText: string): CustomerMapping[] {
+export function parseCustomerMappingsCSV(csvText: string): CustomerMapping[] {
     const lines = csvText.trim().split('\n');
     const mappings: CustomerMapping[] = [];
 
@@ -61,7 +62,7 @@ export async function fetchCustomerMappings(forceRefresh: boolean = false): Prom
         }
 
         const csvText = await response.text();
-        const mappings = parseCSV(csvText);
+        const mappings = parseCustomerMappingsCSV(csvText);
 
         // Cache the results
         cacheMappings(mappings);
@@ -133,6 +134,21 @@ export function findCustomerByTransactionNumber(
     return mapping ? mapping.customerName : '';
 }
 
+/**
+ * Find customer name by phone number (MSISDN)
+ * Compares the last 9 digits so 2557XXXXXXXX and 07XXXXXXXX match
+ */
+export function findCustomerByPhoneNumber(
+    phoneNumber: string,
+    mappings: CustomerMapping[]
+): string {
+    const normalize = (phone: string) => phone.replace(/\D/g, '').slice(-9);
+    const target = normalize(phoneNumber);
+    if (!target) return '';
+    const mapping = mappings.find(m => m.phoneNumber && normalize(m.phoneNumber) === target);
+    return mapping ? mapping.customerName : '';
+}
+
 /**
  * Extract Member ID from NMB transaction description
  * Pattern: MC###XXX (e.g., MC241EPW, MC236EPW)
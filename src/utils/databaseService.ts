@@ -1,6 +1,15 @@
 // Database Service for Transaction Storage
 import { supabase } from '@/lib/supabase';
-import { ParsedTransaction, ParseResult } from './transactionParser';
+import { ParsedTransaction, ParseResult, splitByDirection } from './transactionParser';
+import { BankId, getBankFormat } from './banks';
+import { formatDate, readPaymentDate } from './dateNormalization';
+import { currenciesOf, moneyToDecimal, parseMoney, sumMoney } from './money';
+import type { ReconciliationStatus } from './statementSummary';
+import { DEFAULT_PAYMENT_METHOD_RULES, PaymentMethodRule } from './paymentMethodRules';
+import { CHARGE_CATEGORIES } from './chargeClassifier';
+
+// PostgREST error for an insert naming a column the table does not have
+const MISSING_COLUMN_ERROR = 'PGRST204';
 
 // Generate or retrieve session ID from localStorage
 export function getSessionId(): string {
@@ -23,6 +32,8 @@ export interface TransactionBatch {
   success_count: number;
   fail_count: number;
   total_amount: number;
+  reconciliation_status: ReconciliationStatus | null;   // Null for batches saved before reconciliation
+  reconciliation_difference: number | null;             // Rows minus statement totals when unreconciled
   created_at: string;
   updated_at: string;
 }
@@ -40,6 +51,19 @@ export interface CustomerMapping {
   created_at: string;
 }
 
+export interface StoredPaymentMethodRule {
+  id: string;
+  pattern: string;
+  method: string;
+  priority: number;
+  bank_id: string | null;
+  created_at: string;
+  updated_at: string;         // Same for every rule of a saved set; the set's version
+}
+
+// Postgres error returned by replace_payment_method_rules to users who are not signed in
+const PERMISSION_DENIED_ERROR = '42501';
+
 export interface StoredTransaction {
   id: string;
   batch_id: string;
@@ -66,6 +90,9 @@ export interface StoredTransaction {
   is_valid: boolean;
   error_message: string | null;
   national_id: string | null;
+  reversal_role?: 'original' | 'reversal' | null;   // Set by the transaction reversals migration
+  reversal_pair_id?: number | null;
+  reversal_reference?: string | null;
   created_at: string;
 }
 
@@ -109,50 +136,98 @@ export async function bulkInsertCustomerMappings(
   }
 }
 
+// Fetch the shared payment method rules; the defaults until rules have been saved.
+// version identifies the saved set (null when none is saved) and is passed back to savePaymentMethodRules.
+export async function fetchPaymentMethodRules(): Promise<{ rules: PaymentMethodRule[]; version: string | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase
+      .from('payment_method_rules')
+      .select('*')
+      .order('priority', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching payment method rules:', error);
+      return { rules: DEFAULT_PAYMENT_METHOD_RULES, version: null, error: error.message };
+    }
+
+    const rows = data as StoredPaymentMethodRule[];
+    const newest = rows.reduce<StoredPaymentMethodRule | null>(
+      (latest, row) => !latest || Date.parse(row.updated_at) > Date.parse(latest.updated_at) ? row : latest,
+      null
+    );
+    const rules = rows.map(row => ({
+      id: row.id,
+      pattern: row.pattern,
+      method: row.method,
+      priority: row.priority,
+      bankId: row.bank_id || undefined
+    }));
+    return { rules: rules.length > 0 ? rules : DEFAULT_PAYMENT_METHOD_RULES, version: newest?.updated_at || null, error: null };
+  } catch (error) {
+    console.error('Database error fetching payment method rules:', error);
+    return { rules: DEFAULT_PAYMENT_METHOD_RULES, version: null, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+// Replace the shared payment method rules in one transaction (saving none brings back the defaults).
+// version is the one the rules were loaded with; the save is refused if someone else saved since.
+// Returns the new version.
+export async function savePaymentMethodRules(
+  rules: PaymentMethodRule[],
+  version: string | null
+): Promise<{ success: boolean; version: string | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase.rpc('replace_payment_method_rules', {
+      rules: rules.map(rule => ({
+        id: rule.id,
+        pattern: rule.pattern,
+        method: rule.method,
+        priority: rule.priority,
+        bank_id: rule.bankId || null
+      })),
+      expected_version: version
+    });
+
+    if (error) {
+      console.error('Error saving payment method rules:', error);
+      const message = error.code === PERMISSION_DENIED_ERROR
+        ? 'Only signed-in users can change the shared payment method rules.'
+        : error.message;
+      return { success: false, version, error: message };
+    }
+
+    return { success: true, version: (data as string | null) || null, error: null };
+  } catch (error) {
+    console.error('Database error saving payment method rules:', error);
+    return { success: false, version, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
 // Check for existing transactions in the database
-// Returns a Set of IDs that already exist
+// Returns a Set of dedup keys (see BankFormat.dedupKey) that already exist
 export async function checkExistingTransactions(
   transactions: ParsedTransaction[],
-  bankType: 'NMB' | 'CRDB'
+  bankType: BankId
 ): Promise<{ existingIds: Set<string>; error: string | null }> {
   try {
     const existingIds = new Set<string>();
-
-    if (bankType === 'NMB') {
-      const invoiceNos = transactions.map(t => t.invoiceNo).filter(id => id);
-      if (invoiceNos.length > 0) {
-        // Chunk queries to avoid URL length limits
-        const chunkSize = 100;
-        for (let i = 0; i < invoiceNos.length; i += chunkSize) {
-          const chunk = invoiceNos.slice(i, i + chunkSize);
-          const { data, error } = await supabase
-            .from('parsed_transactions')
-            .select('ref_id')
-            .in('ref_id', chunk);
-
-          if (error) throw error;
-          if (data) {
-            console.log(`[CheckDuplicates] Found ${data.length} existing NMB transactions in chunk`); // DEBUG LOG
-            data.forEach(t => existingIds.add(t.ref_id));
-          }
-        }
-      }
-    } else if (bankType === 'CRDB') {
-      const invoiceNos = transactions.map(t => t.invoiceNo).filter(id => id);
-      if (invoiceNos.length > 0) {
-        const chunkSize = 100;
-        for (let i = 0; i < invoiceNos.length; i += chunkSize) {
-          const chunk = invoiceNos.slice(i, i + chunkSize);
-          const { data, error } = await supabase
-            .from('parsed_transactions')
-            .select('ref_id')
-            .in('ref_id', chunk);
-
-          if (error) throw error;
-          if (data) {
-            console.log(`[CheckDuplicates] Found ${data.length} existing CRDB transactions in chunk`); // DEBUG LOG
-            data.forEach(t => existingIds.add(t.ref_id));
-          }
+    const bank = getBankFormat(bankType);
+
+    const keys = transactions.map(t => bank.dedupKey(t)).filter(id => id);
+    if (keys.length > 0) {
+      // Chunk queries to avoid URL length limits
+      const chunkSize = 100;
+      for (let i = 0; i < keys.length; i += chunkSize) {
+        const chunk = keys.slice(i, i + chunkSize);
+        const { data, error } = await supabase
+          .from('parsed_transactions')
+          .select('ref_id')
+          .in('ref_id', chunk);
+
+        if (error) throw error;
+        if (data) {
+          console.log(`[CheckDuplicates] Found ${data.length} existing ${bank.id} transactions in chunk`); // DEBUG LOG
+          data.forEach(t => existingIds.add(t.ref_id));
         }
       }
     }
@@ -171,6 +246,13 @@ export async function saveBatchToDatabase(
   batchName?: string
 ): Promise<{ batchId: string | null; error: string | null; skippedCount: number }> {
   const sessionId = getSessionId();
+  const bank = getBankFormat(result.bankType);
+
+  // A batch has a single total, which cannot be worked out across currencies
+  const currencies = currenciesOf(result.successful.map(t => t.amount));
+  if (currencies.length > 1) {
+    return { batchId: null, error: `This statement has amounts in ${currencies.join(' and ')}. Split it into one statement per currency before saving.`, skippedCount: 0 };
+  }
 
   // Deduplication Logic
   // We re-run the check here to be safe, or we can trust the UI state. 
@@ -182,7 +264,7 @@ export async function saveBatchToDatabase(
   }
 
   const transactionsToSave = result.successful.filter(t => {
-    return !existingIds.has(t.invoiceNo);
+    return !existingIds.has(bank.dedupKey(t));
   });
 
   const skippedCount = result.successful.length - transactionsToSave.length;
@@ -193,26 +275,38 @@ export async function saveBatchToDatabase(
       return { batchId: null, error: null, skippedCount };
     }
 
-    // Calculate total amount from NEW transactions
-    const totalAmount = transactionsToSave.reduce((sum, t) => {
-      const amount = parseFloat(t.amount.replace(/,/g, '')) || 0;
-      return sum + amount;
-    }, 0);
+    // Calculate total amount received from NEW transactions (debits and reversed payments are not payments)
+    const totalAmount = sumMoney(splitByDirection(transactionsToSave.filter(t => !t.reversal)).credits.map(t => t.amount));
 
     // Insert batch record
-    const { data: batchData, error: batchError } = await supabase
+    const batchRecord = {
+      session_id: sessionId,
+      batch_name: batchName || `Batch ${new Date().toLocaleString()}`,
+      total_lines: result.totalLines,
+      success_count: transactionsToSave.length, // Only count saved ones
+      fail_count: result.failCount, // Failed parse count remains same
+      total_amount: moneyToDecimal(totalAmount)
+    };
+    let { data: batchData, error: batchError } = await supabase
       .from('transaction_batches')
       .insert({
-        session_id: sessionId,
-        batch_name: batchName || `Batch ${new Date().toLocaleString()}`,
-        total_lines: result.totalLines,
-        success_count: transactionsToSave.length, // Only count saved ones
-        fail_count: result.failCount, // Failed parse count remains same
-        total_amount: totalAmount
+        ...batchRecord,
+        reconciliation_status: result.summary?.status || 'unchecked',
+        reconciliation_difference: result.summary?.difference ? moneyToDecimal(result.summary.difference) : null
       })
       .select()
       .single();
 
+    // Databases without the reconciliation columns (supabase/migrations) still save the batch
+    if (batchError?.code === MISSING_COLUMN_ERROR) {
+      console.warn('transaction_batches has no reconciliation columns; run the migrations in supabase/migrations');
+      ({ data: batchData, error: batchError } = await supabase
+        .from('transaction_batches')
+        .insert(batchRecord)
+        .select()
+        .single());
+    }
+
     if (batchError) {
       console.error('Error saving batch:', batchError);
       return { batchId: null, error: batchError.message, skippedCount: 0 };
@@ -225,19 +319,20 @@ export async function saveBatchToDatabase(
     const allTransactions = [
       ...transactionsToSave.map(t => ({
         batch_id: batchId,
-        ref_id: t.invoiceNo,
+        ref_id: bank.dedupKey(t),
         user_id: t.referenceMemo,
         email_address: '',
         product_type: t.paymentMethod,
         product_name: t.depositToAccountName,
         account_number: '',
-        amount: t.amount,
-        transaction_type: 'Credit',
+        amount: moneyToDecimal(t.amount),
+        transaction_type: t.direction,
         principal: '',
         interest: '',
         charges: '',
-        charge_name: '',
-        transaction_date: t.paymentDate,
+        charge_name: t.chargeCategory || '',
+        // Stored day-first so convertToExportFormat can read it back without guessing the order
+        transaction_date: t.isoDate ? formatDate(t.isoDate, 'DD/MM/YYYY') : t.paymentDate,
         operation_type: t.paymentMethod,
         transaction_mode: t.paymentMethod,
         transaction_ref_no: t.invoiceNo,
@@ -247,7 +342,10 @@ export async function saveBatchToDatabase(
         raw_line: t.rawLine,
         is_valid: true,
         error_message: null,
-        national_id: null
+        national_id: null,
+        reversal_role: t.reversal?.role || null,
+        reversal_pair_id: t.reversal?.pairId ?? null,
+        reversal_reference: t.reversal?.reference || null
       })),
       ...result.failed.map(t => ({
         batch_id: batchId,
@@ -257,8 +355,8 @@ export async function saveBatchToDatabase(
         product_type: t.paymentMethod,
         product_name: t.depositToAccountName,
         account_number: '',
-        amount: t.amount,
-        transaction_type: 'Credit',
+        amount: moneyToDecimal(t.amount),
+        transaction_type: t.direction,
         principal: '',
         interest: '',
         charges: '',
@@ -273,7 +371,10 @@ export async function saveBatchToDatabase(
         raw_line: t.rawLine,
         is_valid: false,
         error_message: t.errorMessage || null,
-        national_id: null
+        national_id: null,
+        reversal_role: null,
+        reversal_pair_id: null,
+        reversal_reference: null
       }))
     ];
 
@@ -281,10 +382,21 @@ export async function saveBatchToDatabase(
     const batchSize = 100;
     for (let i = 0; i < allTransactions.length; i += batchSize) {
       const chunk = allTransactions.slice(i, i + batchSize);
-      const { error: txError } = await supabase
+      let { error: txError } = await supabase
         .from('parsed_transactions')
         .insert(chunk);
 
+      // Without the reversal columns (supabase/migrations) the mark cannot be stored, so reversed
+      // pairs are left out rather than saved as ordinary payments
+      if (txError?.code === MISSING_COLUMN_ERROR) {
+        console.warn('parsed_transactions has no reversal columns; reversed pairs are not saved. Run the migrations in supabase/migrations');
+        ({ error: txError } = await supabase
+          .from('parsed_transactions')
+          .insert(chunk
+            .filter(row => !row.reversal_role)
+            .map(({ reversal_role, reversal_pair_id, reversal_reference, ...row }) => row)));
+      }
+
       if (txError) {
         console.error('Error saving transactions:', txError);
         // Don't fail completely, just log the error
@@ -423,17 +535,23 @@ export async function updateBatchName(
 export function convertToExportFormat(transactions: StoredTransaction[]): ParsedTransaction[] {
   return transactions.map(t => ({
     paymentDate: t.transaction_date,
+    ...readPaymentDate(t.transaction_date, 'DMY'),
     customer: '', // Will be enriched from customer mappings if needed
     paymentMethod: t.product_type,
     depositToAccountName: t.product_name,
     invoiceNo: t.ref_id,
     journalNo: t.receipt_no || '',
-    amount: t.amount,
+    amount: parseMoney(t.amount),
+    direction: t.transaction_type === 'Debit' ? 'Debit' : 'Credit',
     referenceMemo: t.comment || t.user_id,
     countryCode: '',
     exchangeRate: '',
     rawLine: t.raw_line,
     isValid: t.is_valid,
-    errorMessage: t.error_message || undefined
+    errorMessage: t.error_message || undefined,
+    chargeCategory: CHARGE_CATEGORIES.find(category => category.value === t.charge_name)?.value,
+    reversal: t.reversal_role
+      ? { role: t.reversal_role, pairId: t.reversal_pair_id ?? 0, reference: t.reversal_reference || '' }
+      : undefined
   }));
 }
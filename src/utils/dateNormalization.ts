@@ -0,0 +1,174 @@
+// Date normalization - turns the date text each statement format uses into a calendar date
+// and formats it for the QuickBooks import
+import type { ParsedTransaction } from './transactionParser';
+
+/** Day-first or month-first order of an all-numeric date such as 05/03/2026 */
+export type DateOrder = 'DMY' | 'MDY';
+
+export type ExportDateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+
+export const EXPORT_DATE_FORMATS: { value: ExportDateFormat; label: string }[] = [
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY' },
+  { value: 'YYYY-MM-DD', label: 'ISO (YYYY-MM-DD)' }
+];
+
+export const DEFAULT_EXPORT_DATE_FORMAT: ExportDateFormat = 'DD/MM/YYYY';
+
+export interface NormalizedDate {
+  /** Calendar date as YYYY-MM-DD */
+  isoDate: string;
+  /** Day and month are both 12 or less and the order was guessed */
+  ambiguous: boolean;
+}
+
+const STORAGE_KEY = 'export_date_format';
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "14 Jan 2026", "14-Jan-26", "14 January 2026"
+const dayMonthNamePattern = /^(\d{1,2})[\s\-/.]+([A-Za-z]{3,9})\.?[\s\-/.,]+(\d{4}|\d{2})(?!\d)/;
+// "Jan 14, 2026"
+const monthNameDayPattern = /^([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})(?!\d)/;
+// "2026-01-19", "2026/01/19 14:32:10"
+const yearFirstPattern = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?!\d)/;
+// "20260119" (OFX, compact exports)
+const compactPattern = /^(\d{4})(\d{2})(\d{2})(?!\d)/;
+// "19/01/2026", "19.01.2026", "1-19-26"
+const numericPattern = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})(?!\d)/;
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function monthFromName(name: string): number {
+  return MONTH_NAMES.indexOf(name.substring(0, 3).toLowerCase()) + 1;
+}
+
+function fullYear(value: string): number {
+  const year = parseInt(value, 10);
+  return value.length === 2 ? 2000 + year : year;
+}
+
+/**
+ * Build the ISO date, or null when the parts do not make a real calendar day (e.g. 31/02)
+ */
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Read a statement date. Dates with a month name or a leading year are never ambiguous.
+ * For all-numeric dates the order is taken from the caller; without one, day-first is
+ * assumed (the Tanzanian convention) unless a part above 12 proves otherwise, and the
+ * result is marked ambiguous when either order would give a valid date.
+ */
+export function normalizeDate(text: string, order?: DateOrder): NormalizedDate | null {
+  const value = text.trim();
+  if (!value) return null;
+
+  let match = value.match(dayMonthNamePattern);
+  if (match && monthFromName(match[2]) > 0) {
+    const isoDate = toIsoDate(fullYear(match[3]), monthFromName(match[2]), parseInt(match[1], 10));
+    return isoDate ? { isoDate, ambiguous: false } : null;
+  }
+
+  match = value.match(monthNameDayPattern);
+  if (match && monthFromName(match[1]) > 0) {
+    const isoDate = toIsoDate(fullYear(match[3]), monthFromName(match[1]), parseInt(match[2], 10));
+    return isoDate ? { isoDate, ambiguous: false } : null;
+  }
+
+  match = value.match(yearFirstPattern) || value.match(compactPattern);
+  if (match) {
+    const isoDate = toIsoDate(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+    return isoDate ? { isoDate, ambiguous: false } : null;
+  }
+
+  match = value.match(numericPattern);
+  if (match) {
+    const first = parseInt(match[1], 10);
+    const second = parseInt(match[2], 10);
+    const year = fullYear(match[3]);
+
+    let monthFirst = order === 'MDY';
+    let ambiguous = false;
+    if (!order) {
+      monthFirst = first <= 12 && second > 12;
+      ambiguous = first <= 12 && second <= 12 && first !== second;
+    }
+
+    const isoDate = monthFirst ? toIsoDate(year, first, second) : toIsoDate(year, second, first);
+    return isoDate ? { isoDate, ambiguous } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Work out the numeric date order of a whole column - one value with a day above 12 settles it.
+ * Returns undefined when every value could be read either way.
+ */
+export function detectDateOrder(values: string[]): DateOrder | undefined {
+  for (const value of values) {
+    const match = value.trim().match(numericPattern);
+    if (!match) continue;
+
+    const first = parseInt(match[1], 10);
+    const second = parseInt(match[2], 10);
+    if (first > 12 && second <= 12) return 'DMY';
+    if (second > 12 && first <= 12) return 'MDY';
+  }
+  return undefined;
+}
+
+/**
+ * Date fields for a parsed transaction: the calendar date and, when it could not be read
+ * with certainty, a warning for the results table
+ */
+export function readPaymentDate(text: string, order?: DateOrder): Pick<ParsedTransaction, 'isoDate' | 'dateWarning'> {
+  const normalized = normalizeDate(text, order);
+  if (!normalized) {
+    return { isoDate: undefined, dateWarning: text.trim() ? `Could not read date "${text.trim()}"` : 'No date' };
+  }
+  return {
+    isoDate: normalized.isoDate,
+    dateWarning: normalized.ambiguous
+      ? `Day and month in "${text.trim()}" could be either way round - read as ${formatDate(normalized.isoDate, 'DD/MM/YYYY')}`
+      : undefined
+  };
+}
+
+/**
+ * Format a YYYY-MM-DD date for export
+ */
+export function formatDate(isoDate: string, format: ExportDateFormat): string {
+  const [year, month, day] = isoDate.split('-');
+  switch (format) {
+    case 'MM/DD/YYYY':
+      return `${month}/${day}/${year}`;
+    case 'YYYY-MM-DD':
+      return isoDate;
+    default:
+      return `${day}/${month}/${year}`;
+  }
+}
+
+/**
+ * Payment date for the export - the statement text is kept when the date could not be read
+ */
+export function formatPaymentDate(transaction: ParsedTransaction, format: ExportDateFormat): string {
+  return transaction.isoDate ? formatDate(transaction.isoDate, format) : transaction.paymentDate;
+}
+
+export function getExportDateFormat(): ExportDateFormat {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return EXPORT_DATE_FORMATS.some(f => f.value === stored) ? stored as ExportDateFormat : DEFAULT_EXPORT_DATE_FORMAT;
+}
+
+export function saveExportDateFormat(format: ExportDateFormat): void {
+  localStorage.setItem(STORAGE_KEY, format);
+}
@@ -0,0 +1,139 @@
+// Deposit Account Mapping - links a bank's branch code (or, for statements without branches, its
+// collection account) to the QuickBooks "Deposit To" account the payments are booked to
+import Papa from 'papaparse';
+import { v4 as uuidv4 } from 'uuid';
+import type { BankId } from './banks';
+import type { ParsedTransaction } from './transactionParser';
+
+export interface DepositAccountMapping {
+  id: string;
+  bankId: BankId;
+  branch: string;       // Branch code (e.g. "101") or the collection account name the parser gives
+  account: string;      // QuickBooks "Deposit To" account name
+}
+
+// A branch or collection account seen in a statement with no mapping
+export interface UnmappedBranch {
+  branch: string;
+  name: string;         // Name the statement gives it (the unmapped depositToAccountName)
+  count: number;
+}
+
+const STORAGE_KEY = 'deposit_account_mappings';
+const CSV_HEADERS = ['Bank', 'Branch', 'QuickBooks Account'];
+
+// Mappings applied by buildParseResult; the app and the parse worker set the saved mappings
+let activeMappings: DepositAccountMapping[] = [];
+
+export function setDepositAccountMappings(mappings: DepositAccountMapping[]): void {
+  activeMappings = mappings;
+}
+
+/**
+ * What a row is mapped by: its branch code, else the collection account the parser filled in
+ * (kept on the row once depositToAccountName has been replaced)
+ */
+export function branchKey(transaction: ParsedTransaction): string {
+  return transaction.depositAccountLookup?.branch || transaction.branchCode || transaction.depositToAccountName;
+}
+
+export function findDepositAccount(
+  bankId: BankId,
+  branch: string,
+  mappings: DepositAccountMapping[] = activeMappings
+): string | undefined {
+  const key = branch.trim().toLowerCase();
+  return mappings.find(m =>
+    m.bankId.toLowerCase() === bankId.toLowerCase() && m.branch.trim().toLowerCase() === key && m.account.trim()
+  )?.account.trim();
+}
+
+/**
+ * Replace the branch/collection account name with its QuickBooks deposit account. An unmapped row
+ * keeps the statement's name, now low confidence so the cell is flagged in the results table.
+ */
+export function applyDepositAccountMapping(transaction: ParsedTransaction, bankId: BankId): void {
+  const branch = branchKey(transaction);
+  if (!branch) return;
+
+  const account = findDepositAccount(bankId, branch);
+  if (account) {
+    transaction.depositToAccountName = account;
+    transaction.depositAccountLookup = { branch, mapped: true };
+    transaction.provenance = {
+      ...transaction.provenance,
+      depositToAccountName: {
+        rule: `Deposit account mapping for ${bankId} ${branch}`,
+        span: transaction.provenance?.branchCode?.span || transaction.provenance?.depositToAccountName?.span,
+        confidence: 'high'
+      }
+    };
+    return;
+  }
+
+  transaction.depositAccountLookup = { branch, mapped: false };
+  const provenance = transaction.provenance?.depositToAccountName;
+  transaction.provenance = {
+    ...transaction.provenance,
+    depositToAccountName: { ...provenance, rule: `${provenance?.rule || 'Statement value'} - no QuickBooks deposit account mapped`, confidence: 'low' }
+  };
+  transaction.failedRules = [
+    ...(transaction.failedRules || []),
+    { field: 'depositToAccountName', rule: `Deposit account mapping (${bankId} ${branch} not mapped)` }
+  ];
+}
+
+/**
+ * Branches and collection accounts of the rows that have no deposit account mapping, most rows first
+ */
+export function findUnmappedBranches(transactions: ParsedTransaction[]): UnmappedBranch[] {
+  const unmapped = new Map<string, UnmappedBranch>();
+  for (const transaction of transactions) {
+    if (!transaction.depositAccountLookup || transaction.depositAccountLookup.mapped) continue;
+    const branch = branchKey(transaction);
+    const entry = unmapped.get(branch) || { branch, name: transaction.depositToAccountName, count: 0 };
+    entry.count++;
+    unmapped.set(branch, entry);
+  }
+  return [...unmapped.values()].sort((a, b) => b.count - a.count);
+}
+
+export function createDepositAccountMapping(bankId: BankId, branch: string = ''): DepositAccountMapping {
+  return { id: uuidv4(), bankId, branch, account: '' };
+}
+
+/**
+ * Mappings as CSV (Bank, Branch, QuickBooks Account), for the command-line converter's --deposit-accounts
+ */
+export function generateDepositAccountMappingsCSV(mappings: DepositAccountMapping[]): string {
+  return Papa.unparse([CSV_HEADERS, ...mappings.map(m => [m.bankId, m.branch, m.account])]);
+}
+
+/**
+ * Read mappings written by generateDepositAccountMappingsCSV; the header row is skipped and rows
+ * without a branch or account are ignored
+ */
+export function parseDepositAccountMappingsCSV(csvText: string): DepositAccountMapping[] {
+  const rows = Papa.parse<string[]>(csvText.trim(), { skipEmptyLines: true }).data.slice(1);
+  return rows
+    .map(([bankId = '', branch = '', account = '']) => ({ id: uuidv4(), bankId: bankId.trim(), branch: branch.trim(), account: account.trim() }))
+    .filter(mapping => mapping.bankId && mapping.branch && mapping.account);
+}
+
+export function loadDepositAccountMappings(): DepositAccountMapping[] {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(stored) as DepositAccountMapping[];
+  } catch (error) {
+    console.error('[DepositAccountMapping] Could not read saved mappings:', error);
+    return [];
+  }
+}
+
+export function saveDepositAccountMappings(mappings: DepositAccountMapping[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+}
@@ -1,12 +1,32 @@
 // Excel Export Utility using native browser APIs
-import { ParsedTransaction, generateExcelData } from './transactionParser';
+import { ExportCell, ParsedTransaction, generateChargeData, generateExcelData, generateWithdrawalData } from './transactionParser';
+import { ChargeAccounts } from './chargeClassifier';
+import { describeLineNumbers } from './recordAssembler';
+import { DEFAULT_EXPORT_DATE_FORMAT, ExportDateFormat } from './dateNormalization';
+import { isMoney, moneyToDecimal } from './money';
 
-// Convert data to CSV format (widely compatible with Excel)
-export function generateCSV(transactions: ParsedTransaction[]): string {
-  const data = generateExcelData(transactions);
-  
+// Save text as "<filename>_<today>.<extension>" through a temporary download link
+export function downloadFile(content: string, type: string, filename: string, extension: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${filename}_${new Date().toISOString().split('T')[0]}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// Convert rows to CSV text
+function rowsToCSV(data: ExportCell[][]): string {
   return data.map(row => 
     row.map(cell => {
+      // Money is written as a plain number ("12500.00") so spreadsheets read it as numeric
+      if (isMoney(cell)) {
+        return moneyToDecimal(cell);
+      }
       // Escape quotes and wrap in quotes if contains comma, quote, or newline
       const cellStr = String(cell || '');
       if (cellStr.includes(',') || cellStr.includes('"') || cellStr.includes('\n')) {
@@ -17,24 +37,62 @@ export function generateCSV(transactions: ParsedTransaction[]): string {
   ).join('\n');
 }
 
+// Convert data to CSV format (widely compatible with Excel)
+export function generateCSV(transactions: ParsedTransaction[], dateFormat: ExportDateFormat = DEFAULT_EXPORT_DATE_FORMAT): string {
+  return rowsToCSV(generateExcelData(transactions, dateFormat));
+}
+
 // Generate and download CSV file
-export function downloadCSV(transactions: ParsedTransaction[], filename: string = 'transactions'): void {
-  const csv = generateCSV(transactions);
-  const blob = new Blob(['\ufeff' + csv], { type: 'text/csv;charset=utf-8;' }); // BOM for Excel
-  const url = URL.createObjectURL(blob);
-  
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = `${filename}_${new Date().toISOString().split('T')[0]}.csv`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+export function downloadCSV(
+  transactions: ParsedTransaction[],
+  filename: string = 'transactions',
+  dateFormat: ExportDateFormat = DEFAULT_EXPORT_DATE_FORMAT
+): void {
+  const csv = generateCSV(transactions, dateFormat);
+  downloadFile('\ufeff' + csv, 'text/csv;charset=utf-8;', filename, 'csv'); // BOM for Excel
+}
+
+// Expenses/transfers CSV (debits kept out of the Receive Payment export)
+export function generateWithdrawalsCSV(
+  transactions: ParsedTransaction[],
+  dateFormat: ExportDateFormat = DEFAULT_EXPORT_DATE_FORMAT
+): string {
+  return rowsToCSV(generateWithdrawalData(transactions, dateFormat));
+}
+
+// Generate and download the expenses/transfers CSV
+export function downloadWithdrawals(
+  transactions: ParsedTransaction[],
+  filename: string = 'expenses_transfers',
+  dateFormat: ExportDateFormat = DEFAULT_EXPORT_DATE_FORMAT
+): void {
+  const csv = generateWithdrawalsCSV(transactions, dateFormat);
+  downloadFile('\ufeff' + csv, 'text/csv;charset=utf-8;', filename, 'csv'); // BOM for Excel
+}
+
+// Bank charges CSV (Date, Account, Amount, Memo) for QuickBooks expenses
+export function generateChargesCSV(
+  transactions: ParsedTransaction[],
+  accounts: ChargeAccounts,
+  dateFormat: ExportDateFormat = DEFAULT_EXPORT_DATE_FORMAT
+): string {
+  return rowsToCSV(generateChargeData(transactions, accounts, dateFormat));
+}
+
+// Generate and download the bank charges CSV
+export function downloadCharges(
+  transactions: ParsedTransaction[],
+  accounts: ChargeAccounts,
+  filename: string = 'bank_charges',
+  dateFormat: ExportDateFormat = DEFAULT_EXPORT_DATE_FORMAT
+): void {
+  const csv = generateChargesCSV(transactions, accounts, dateFormat);
+  downloadFile('\ufeff' + csv, 'text/csv;charset=utf-8;', filename, 'csv'); // BOM for Excel
 }
 
 // Generate Excel XML format (better Excel compatibility)
-export function generateExcelXML(transactions: ParsedTransaction[]): string {
-  const data = generateExcelData(transactions);
+export function generateExcelXML(transactions: ParsedTransaction[], dateFormat: ExportDateFormat = DEFAULT_EXPORT_DATE_FORMAT): string {
+  const data = generateExcelData(transactions, dateFormat);
   
   const escapeXML = (str: string): string => {
     return String(str || '')
@@ -46,13 +104,12 @@ export function generateExcelXML(transactions: ParsedTransaction[]): string {
   };
 
   const rows = data.map((row, rowIndex) => {
-    const cells = row.map((cell, cellIndex) => {
+    const cells = row.map(cell => {
       const isHeader = rowIndex === 0;
-      const isNumber = !isHeader && (cellIndex === 4) && !isNaN(Number(String(cell).replace(/,/g, '')));
-      const type = isNumber ? 'Number' : 'String';
-      const value = isNumber ? String(cell).replace(/,/g, '') : escapeXML(String(cell || ''));
+      const type = isMoney(cell) ? 'Number' : 'String';
+      const value = isMoney(cell) ? moneyToDecimal(cell) : escapeXML(String(cell || ''));
       
-      const style = isHeader ? ' ss:StyleID="Header"' : '';
+      const style = isHeader ? ' ss:StyleID="Header"' : isMoney(cell) ? ' ss:StyleID="Amount"' : '';
       
       return `<Cell${style}><Data ss:Type="${type}">${value}</Data></Cell>`;
     }).join('');
@@ -73,6 +130,9 @@ export function generateExcelXML(transactions: ParsedTransaction[]): string {
       <Interior ss:Color="#1e3a8a" ss:Pattern="Solid"/>
       <Font ss:Color="#FFFFFF"/>
     </Style>
+    <Style ss:ID="Amount">
+      <NumberFormat ss:Format="#,##0.00"/>
+    </Style>
   </Styles>
   <Worksheet ss:Name="Transactions">
     <Table>
@@ -91,34 +151,24 @@ export function generateExcelXML(transactions: ParsedTransaction[]): string {
 }
 
 // Download Excel XML file
-export function downloadExcel(transactions: ParsedTransaction[], filename: string = 'transactions'): void {
-  const xml = generateExcelXML(transactions);
-  const blob = new Blob([xml], { type: 'application/vnd.ms-excel' });
-  const url = URL.createObjectURL(blob);
-  
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = `${filename}_${new Date().toISOString().split('T')[0]}.xls`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+export function downloadExcel(
+  transactions: ParsedTransaction[],
+  filename: string = 'transactions',
+  dateFormat: ExportDateFormat = DEFAULT_EXPORT_DATE_FORMAT
+): void {
+  const xml = generateExcelXML(transactions, dateFormat);
+  downloadFile(xml, 'application/vnd.ms-excel', filename, 'xls');
+}
+
+// Plain-text report of failed records for manual review
+export function generateFailedRecordsReport(failed: ParsedTransaction[]): string {
+  return failed.map((f, i) => 
+    `Record ${i + 1}${f.lineNumbers ? `, ${describeLineNumbers(f.lineNumbers)}` : ''}${f.source ? ` (PDF page ${f.source.page}, row ${f.source.row})` : ''}:\n${f.rawLine}\nError: ${f.errorMessage || 'Unknown'}\n${'─'.repeat(50)}`
+  ).join('\n\n');
 }
 
 // Download failed records for review
 export function downloadFailedRecords(failed: ParsedTransaction[], filename: string = 'failed_records'): void {
-  const content = failed.map((f, i) => 
-    `Record ${i + 1}:\n${f.rawLine}\nError: ${f.errorMessage || 'Unknown'}\n${'─'.repeat(50)}`
-  ).join('\n\n');
-  
-  const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
-  const url = URL.createObjectURL(blob);
-  
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = `${filename}_${new Date().toISOString().split('T')[0]}.txt`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  const content = generateFailedRecordsReport(failed);
+  downloadFile(content, 'text/plain;charset=utf-8', filename, 'txt');
 }
@@ -0,0 +1,80 @@
+// Format Detection - score pasted statement text against every registered bank format
+import { BankId, getBankFormats } from './banks';
+
+export interface BankMatch {
+  bankId: BankId;
+  lineCount: number;     // Lines whose best match was this bank
+}
+
+export interface DetectionResult {
+  bankId: BankId | null; // Best-matching bank, null when nothing matched
+  confidence: number;    // Share of non-empty lines matching the best bank (0-1)
+  matches: BankMatch[];  // Every bank with at least one matching line, best first
+  isMixed: boolean;      // True when lines from more than one format were found
+  totalLines: number;    // Lines scored; at most the sample size
+}
+
+// Lines scored from the start of the text - enough to tell the formats apart without checking
+// every line of a 50,000-line statement against every format
+export const DETECTION_SAMPLE_LINES = 500;
+
+/**
+ * Score a single line against a bank's signatures (fraction of signatures that match)
+ */
+function scoreLine(line: string, signatures: RegExp[]): number {
+  if (signatures.length === 0) return 0;
+  const matched = signatures.filter(pattern => pattern.test(line)).length;
+  return matched / signatures.length;
+}
+
+/**
+ * Detect which bank format the raw statement text is in, from its first sampleLines non-empty lines.
+ * Each line is attributed to the bank whose signatures it matches best;
+ * lines that match nothing (or tie between banks) are left unattributed.
+ */
+export function detectBankFormat(rawData: string, sampleLines: number = DETECTION_SAMPLE_LINES): DetectionResult {
+  const bankFormats = getBankFormats();
+  const lines: string[] = [];
+  for (let start = 0; start < rawData.length && lines.length < sampleLines;) {
+    const end = rawData.indexOf('\n', start);
+    const line = rawData.slice(start, end === -1 ? rawData.length : end).trim();
+    if (line && !bankFormats.some(bank => bank.isHeaderLine?.(line))) lines.push(line);
+    start = end === -1 ? rawData.length : end + 1;
+  }
+  const counts = new Map<BankId, number>();
+
+  for (const line of lines) {
+    let bestId: BankId | null = null;
+    let bestScore = 0;
+    let tied = false;
+
+    for (const bank of bankFormats) {
+      const score = scoreLine(line, bank.signatures);
+      if (score > bestScore) {
+        bestId = bank.id;
+        bestScore = score;
+        tied = false;
+      } else if (score > 0 && score === bestScore) {
+        tied = true;
+      }
+    }
+
+    if (bestId && !tied) {
+      counts.set(bestId, (counts.get(bestId) || 0) + 1);
+    }
+  }
+
+  const matches = [...counts.entries()]
+    .map(([bankId, lineCount]) => ({ bankId, lineCount }))
+    .sort((a, b) => b.lineCount - a.lineCount);
+
+  const best = matches[0];
+
+  return {
+    bankId: best ? best.bankId : null,
+    confidence: best && lines.length > 0 ? best.lineCount / lines.length : 0,
+    matches,
+    isMixed: matches.length > 1,
+    totalLines: lines.length
+  };
+}
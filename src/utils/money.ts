@@ -0,0 +1,119 @@
+// Money - exact amounts held as whole minor units (cents) so totals never pick up floating point error
+
+export const DEFAULT_CURRENCY = 'TZS';
+
+export interface Money {
+  minorUnits: number;   // Whole cents; always an integer
+  currency: string;     // ISO currency code, e.g. "TZS"
+}
+
+const MINOR_UNITS_PER_UNIT = 100;
+
+/**
+ * Read an amount from statement text ("12,500.00", "5000", "-1,000.5", "25000,00" with a decimal comma).
+ * The digits are converted directly, never through a float. Empty or unreadable text gives zero.
+ */
+export function parseMoney(text: string, currency: string = DEFAULT_CURRENCY): Money {
+  let value = (text || '').trim().replace(/\s/g, '');
+  const negative = /^-|^\(.*\)$|-$/.test(value);
+
+  // A lone comma followed by one or two digits is a decimal comma (SWIFT "25000,00")
+  if (!value.includes('.') && /,\d{1,2}$/.test(value)) {
+    value = value.replace(/,(\d{1,2})$/, '.$1');
+  }
+
+  const match = value.replace(/[^\d.]/g, '').match(/^(\d*)(?:\.(\d*))?/);
+  const whole = match && match[1] ? parseInt(match[1], 10) : 0;
+  const fraction = match && match[2] ? match[2] : '';
+
+  // Round half up on the third decimal place
+  let cents = parseInt((fraction + '00').substring(0, 2), 10);
+  if (fraction.length > 2 && parseInt(fraction[2], 10) >= 5) cents += 1;
+
+  const minorUnits = whole * MINOR_UNITS_PER_UNIT + cents;
+  return { minorUnits: negative ? -minorUnits : minorUnits, currency };
+}
+
+/**
+ * Money from a number that is already in currency units (rounded to the nearest cent)
+ */
+export function moneyFromNumber(value: number, currency: string = DEFAULT_CURRENCY): Money {
+  return { minorUnits: Math.round(value * MINOR_UNITS_PER_UNIT), currency };
+}
+
+export function zeroMoney(currency: string = DEFAULT_CURRENCY): Money {
+  return { minorUnits: 0, currency };
+}
+
+/**
+ * Thrown when amounts in different currencies are added or subtracted
+ */
+export class CurrencyMismatchError extends Error {
+  constructor(a: Money, b: Money) {
+    super(`Cannot combine ${a.currency} and ${b.currency} amounts`);
+    this.name = 'CurrencyMismatchError';
+  }
+}
+
+// Currency of a sum or difference; a zero amount takes the other amount's currency
+function combinedCurrency(a: Money, b: Money): string {
+  if (a.currency === b.currency || b.minorUnits === 0) return a.currency;
+  if (a.minorUnits === 0) return b.currency;
+  throw new CurrencyMismatchError(a, b);
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  return { minorUnits: a.minorUnits + b.minorUnits, currency: combinedCurrency(a, b) };
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  return { minorUnits: a.minorUnits - b.minorUnits, currency: combinedCurrency(a, b) };
+}
+
+export function negateMoney(value: Money): Money {
+  return { minorUnits: -value.minorUnits, currency: value.currency };
+}
+
+export function absMoney(value: Money): Money {
+  return { minorUnits: Math.abs(value.minorUnits), currency: value.currency };
+}
+
+/**
+ * Exact total; the currency is taken from the first value when not given.
+ * Throws CurrencyMismatchError when the values are in more than one currency.
+ */
+export function sumMoney(values: Money[], currency: string = values[0]?.currency || DEFAULT_CURRENCY): Money {
+  return values.reduce(addMoney, zeroMoney(currency));
+}
+
+/**
+ * The distinct currencies of the non-zero values, e.g. ["TZS", "USD"] for a statement that mixes the two
+ */
+export function currenciesOf(values: Money[]): string[] {
+  return [...new Set(values.filter(value => value.minorUnits !== 0).map(value => value.currency))];
+}
+
+/**
+ * Plain decimal string for numeric export cells ("12500.00", "-5000.00")
+ */
+export function moneyToDecimal(value: Money): string {
+  const sign = value.minorUnits < 0 ? '-' : '';
+  const minorUnits = Math.abs(value.minorUnits);
+  const whole = Math.floor(minorUnits / MINOR_UNITS_PER_UNIT);
+  const cents = String(minorUnits % MINOR_UNITS_PER_UNIT).padStart(2, '0');
+  return `${sign}${whole}.${cents}`;
+}
+
+/**
+ * Display format with thousands separators ("12,500.00"); pass withCurrency for "TZS 12,500.00"
+ */
+export function formatMoney(value: Money, withCurrency: boolean = false): string {
+  const [whole, cents] = moneyToDecimal(absMoney(value)).split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  const text = `${value.minorUnits < 0 ? '-' : ''}${grouped}.${cents}`;
+  return withCurrency ? `${value.currency} ${text}` : text;
+}
+
+export function isMoney(value: unknown): value is Money {
+  return typeof value === 'object' && value !== null && typeof (value as Money).minorUnits === 'number';
+}
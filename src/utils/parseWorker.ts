@@ -0,0 +1,87 @@
+// Parse Worker - Web Worker entry point for background parsing (see backgroundParser.ts).
+// Records are parsed, enriched and checked against saved transactions a chunk at a time,
+// and each chunk is posted back as soon as it is ready.
+import type { BackgroundParseMessage, BackgroundParseRequest } from './backgroundParser';
+import { getBankFormat, setCustomBankFormats } from './banks';
+import { checkExistingTransactions } from './databaseService';
+import { templateToBankFormat } from './statementTemplates';
+import { setPaymentMethodRules } from './paymentMethodRules';
+import { setDepositAccountMappings } from './depositAccountMapping';
+import { addStatementChecks, buildParseResult, parseStatementRecord, ParsedTransaction, splitStatementRecords } from './transactionParser';
+
+const CHUNK_SIZE = 1000;
+
+function post(message: BackgroundParseMessage): void {
+  self.postMessage(message);
+}
+
+async function parseInBackground(request: BackgroundParseRequest): Promise<void> {
+  const { rawData, bankType, customerMappings, lineSources, templates, paymentMethodRules, depositAccountMappings } = request;
+  setCustomBankFormats(templates.map(templateToBankFormat));
+  setPaymentMethodRules(paymentMethodRules);
+  setDepositAccountMappings(depositAccountMappings);
+  const bank = getBankFormat(bankType);
+
+  // Whole-document formats (MT940, camt.053, OFX) are parsed in one go and then enriched in chunks;
+  // line-based formats are parsed chunk by chunk
+  const document = bank.parseStatement ? bank.parseStatement(rawData) : undefined;
+  const records = document ? [] : splitStatementRecords(rawData, bank, lineSources);
+  const total = document ? document.transactions.length : records.length;
+
+  const parsedRows: ParsedTransaction[] = [];   // Every valid row, for the balance checks and summary
+  let dedupError: string | null = null;
+  for (let start = 0; start < total; start += CHUNK_SIZE) {
+    const parsed: ParsedTransaction[] = document
+      ? document.transactions.slice(start, start + CHUNK_SIZE)
+      : records.slice(start, start + CHUNK_SIZE).map(record => parseStatementRecord(bank, record));
+    const chunk = buildParseResult(parsed, bankType, customerMappings);
+    parsedRows.push(...chunk.successful);
+
+    // Drop transactions that are already saved
+    let duplicateCount = 0;
+    if (chunk.successful.length > 0) {
+      const { existingIds, error } = await checkExistingTransactions(chunk.successful, bankType);
+      if (error && !dedupError) dedupError = error;
+      const successful = chunk.successful.filter(t => !existingIds.has(bank.dedupKey(t)));
+      duplicateCount = chunk.successful.length - successful.length;
+      chunk.successful = successful;
+    }
+
+    post({
+      type: 'chunk',
+      successful: chunk.successful,
+      failed: chunk.failed,
+      duplicateCount,
+      progress: Math.round(Math.min(start + CHUNK_SIZE, total) / total * 100)
+    });
+  }
+
+  const { continuity, summary, mixedCurrencies } = addStatementChecks({
+    successful: parsedRows,
+    failed: [],
+    totalLines: total,
+    successCount: parsedRows.length,
+    failCount: 0,
+    bankType,
+    openingBalance: document?.openingBalance,
+    closingBalance: document?.closingBalance
+  }, rawData);
+
+  post({
+    type: 'done',
+    totalLines: total,
+    openingBalance: document?.openingBalance,
+    closingBalance: document?.closingBalance,
+    continuity,
+    summary,
+    mixedCurrencies,
+    dedupError
+  });
+}
+
+self.onmessage = (event: MessageEvent<BackgroundParseRequest>) => {
+  parseInBackground(event.data).catch(error => {
+    console.error('Error parsing in background:', error);
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  });
+};
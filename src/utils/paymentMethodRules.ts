@@ -0,0 +1,118 @@
+// Payment Method Rules - one editable table of pattern -> QuickBooks payment method rules, applied to
+// every parsed row whatever the bank, in place of per-parser keyword checks
+import { v4 as uuidv4 } from 'uuid';
+import type { BankId } from './banks';
+import type { ParsedTransaction } from './transactionParser';
+import { assumed, fromMatch } from './provenance';
+
+export interface PaymentMethodRule {
+  id: string;
+  pattern: string;      // Regular expression, matched case-insensitively against the raw line
+  method: string;       // QuickBooks payment method name
+  priority: number;     // Lower numbers are tried first; the first matching rule wins
+  bankId?: BankId;      // Only applies to this bank's statements; every bank when unset
+}
+
+// Method of rows no rule matches and whose parser did not set one
+export const DEFAULT_PAYMENT_METHOD = 'Bank Transfer';
+
+export const DEFAULT_PAYMENT_METHOD_RULES: PaymentMethodRule[] = [
+  { id: 'default-ofx-cash', pattern: '<TRNTYPE>\\s*CASH\\b', method: 'Cash', priority: 5, bankId: 'OFX' },
+  { id: 'default-agency', pattern: '\\bagency\\b', method: 'Agency Deposit', priority: 10, bankId: 'NMB' },
+  { id: 'default-mobile', pattern: 'm-?pesa|airtel\\s*money|tigo\\s*pesa|halo\\s*pesa|\\bmixx\\b|\\bmobile\\b', method: 'Mobile Money', priority: 20 },
+  { id: 'default-transfer', pattern: 'transfer|\\bFT\\b|\\bTIPS\\b|\\bRTGS\\b|\\bEFT\\b', method: 'Bank Transfer', priority: 30 },
+  { id: 'default-atm', pattern: '\\bATM\\b', method: 'ATM', priority: 40 },
+  { id: 'default-cheque', pattern: 'cheque|\\bchq\\b', method: 'Cheque', priority: 50 },
+  { id: 'default-cash', pattern: '\\bcash\\b', method: 'Cash', priority: 60 }
+];
+
+// Rules applied by buildParseResult; the app sets the rules saved in the database (see
+// fetchPaymentMethodRules) and passes them on to the parse worker
+let activeRules: PaymentMethodRule[] = DEFAULT_PAYMENT_METHOD_RULES;
+
+// Compiled patterns by pattern text; null for patterns that do not compile
+const compiledPatterns = new Map<string, RegExp | null>();
+
+function compile(pattern: string): RegExp | null {
+  if (!compiledPatterns.has(pattern)) {
+    try {
+      compiledPatterns.set(pattern, new RegExp(pattern, 'i'));
+    } catch {
+      compiledPatterns.set(pattern, null);
+    }
+  }
+  return compiledPatterns.get(pattern);
+}
+
+export function setPaymentMethodRules(rules: PaymentMethodRule[]): void {
+  activeRules = rules;
+}
+
+export function getPaymentMethodRules(): PaymentMethodRule[] {
+  return activeRules;
+}
+
+/**
+ * The rule that sets a row's payment method: the highest-priority rule for this bank (or every bank)
+ * whose pattern matches the raw line
+ */
+export function findPaymentMethodRule(
+  transaction: ParsedTransaction,
+  bankId: BankId,
+  rules: PaymentMethodRule[] = activeRules
+): { rule: PaymentMethodRule; match: RegExpMatchArray } | null {
+  const ordered = rules
+    .filter(rule => !rule.bankId || rule.bankId === bankId)
+    .sort((a, b) => a.priority - b.priority);
+
+  for (const rule of ordered) {
+    const pattern = rule.pattern && rule.method ? compile(rule.pattern) : null;
+    const match = pattern && transaction.rawLine.match(pattern);
+    if (match) return { rule, match };
+  }
+  return null;
+}
+
+/**
+ * Set the payment method from the first matching rule. When none match, a method the parser set
+ * itself (mobile money statements) stays and every other row gets DEFAULT_PAYMENT_METHOD.
+ */
+export function applyPaymentMethodRules(transaction: ParsedTransaction, bankId: BankId): void {
+  const found = findPaymentMethodRule(transaction, bankId);
+  if (!found) {
+    if (!transaction.paymentMethod) {
+      transaction.paymentMethod = DEFAULT_PAYMENT_METHOD;
+      transaction.provenance = {
+        ...transaction.provenance,
+        paymentMethod: assumed(`No payment method rule matched - ${DEFAULT_PAYMENT_METHOD} assumed`, 'low')
+      };
+    }
+    return;
+  }
+
+  transaction.paymentMethod = found.rule.method;
+  transaction.provenance = {
+    ...transaction.provenance,
+    paymentMethod: fromMatch(found.match, `Payment method rule /${found.rule.pattern}/`, 'high', 0)
+  };
+}
+
+/**
+ * How many rows each rule sets the payment method of, by rule id (rules that never win are absent)
+ */
+export function countRuleMatches(
+  transactions: ParsedTransaction[],
+  bankId: BankId,
+  rules: PaymentMethodRule[]
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const transaction of transactions) {
+    const found = findPaymentMethodRule(transaction, bankId, rules);
+    if (found) counts[found.rule.id] = (counts[found.rule.id] || 0) + 1;
+  }
+  return counts;
+}
+
+export function createPaymentMethodRule(priority: number): PaymentMethodRule {
+  return { id: uuidv4(), pattern: '', method: '', priority };
+}
@@ -0,0 +1,162 @@
+// PDF Statement Extractor - rebuilds tab-separated statement lines from PDF glyph positions (runs in the browser)
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { LineSource } from './transactionParser';
+
+export interface PdfLine extends LineSource {
+  text: string;
+}
+
+// A run of text with its position on the page (PDF units, y grows upwards)
+export interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const ROW_TOLERANCE = 0.5;   // Items whose baselines differ by less than half a glyph height share a row
+const COLUMN_GAP = 1.5;      // Gaps wider than 1.5 glyph heights start a new column (tab)
+
+// Header cell words; a row of three or more digit-free cells with one of them is the column header
+const HEADER_WORDS = /date|debit|credit|withdraw|deposit|balance|amount|description|narration|details|particulars|reference/i;
+
+// One cell of a rebuilt row: adjacent runs joined, with its horizontal extent
+export interface TextColumn {
+  text: string;
+  x: number;
+  end: number;
+}
+
+export interface RebuiltPage {
+  rows: string[];
+  columns?: TextColumn[];    // Header columns in effect at the end of the page, for the next page
+}
+
+/**
+ * Join the runs of one row into cells, starting a new cell wherever the horizontal gap
+ * between runs is wide enough to be a column break
+ */
+function splitCells(row: PositionedText[]): TextColumn[] {
+  const cells: TextColumn[] = [];
+
+  for (const item of [...row].sort((a, b) => a.x - b.x)) {
+    const current = cells[cells.length - 1];
+    const gap = current ? item.x - current.end : 0;
+    if (!current || gap > Math.max(item.height, 1) * COLUMN_GAP) {
+      cells.push({ text: item.text, x: item.x, end: item.x + item.width });
+      continue;
+    }
+    if (gap > 0.5 && !current.text.endsWith(' ') && !item.text.startsWith(' ')) {
+      current.text += ' ';
+    }
+    current.text += item.text;
+    current.end = item.x + item.width;
+  }
+
+  return cells.map(cell => ({ ...cell, text: cell.text.trim() }));
+}
+
+function isHeaderRow(cells: TextColumn[]): boolean {
+  return cells.length >= 3 && cells.every(cell => !/\d/.test(cell.text)) && cells.some(cell => HEADER_WORDS.test(cell.text));
+}
+
+/**
+ * The header column a cell sits under: the one it overlaps most, else the one whose centre is nearest
+ * (amounts are often right-aligned past the edge of their header)
+ */
+function columnIndex(cell: TextColumn, columns: TextColumn[]): number {
+  const overlap = (column: TextColumn) => Math.min(cell.end, column.end) - Math.max(cell.x, column.x);
+  const distance = (column: TextColumn) => Math.abs((cell.x + cell.end) / 2 - (column.x + column.end) / 2);
+
+  const overlaps = columns.map(overlap);
+  const widest = Math.max(...overlaps);
+  if (widest > 0) return overlaps.indexOf(widest);
+
+  const distances = columns.map(distance);
+  return distances.indexOf(Math.min(...distances));
+}
+
+/**
+ * Group positioned text into rows and split each row into tab-separated cells. Below a column header,
+ * every header column gets a slot, so an empty cell (e.g. the unused one of a debit/credit pair) stays
+ * an empty field instead of shifting the cells after it. Pass the columns the previous page ended with
+ * for pages whose header is not repeated.
+ */
+export function rebuildRows(items: PositionedText[], columns?: TextColumn[]): RebuiltPage {
+  const sorted = items
+    .filter(item => item.text.trim())
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const rows: PositionedText[][] = [];
+  for (const item of sorted) {
+    const current = rows[rows.length - 1];
+    const tolerance = Math.max(item.height, 1) * ROW_TOLERANCE;
+    if (current && Math.abs(current[0].y - item.y) <= tolerance) {
+      current.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  let header = columns;
+  const text = rows.map(row => {
+    const cells = splitCells(row);
+    if (isHeaderRow(cells)) {
+      header = cells;
+    } else if (header) {
+      const slots: string[] = header.map(() => '');
+      for (const cell of cells) {
+        const index = columnIndex(cell, header);
+        slots[index] = slots[index] ? `${slots[index]} ${cell.text}` : cell.text;
+      }
+      return slots.join('\t').trimEnd();
+    }
+    return cells.map(cell => cell.text).join('\t');
+  });
+
+  return { rows: text, columns: header };
+}
+
+/**
+ * Extract every text row from a PDF file, keeping page/row provenance
+ */
+export async function extractPdfLines(file: File): Promise<PdfLine[]> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  const lines: PdfLine[] = [];
+  let columns: TextColumn[] | undefined;
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      const items: PositionedText[] = content.items
+        .filter((item): item is TextItem => 'str' in item)
+        .map(item => ({
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: item.height || Math.abs(item.transform[3])
+        }));
+
+      const rebuilt = rebuildRows(items, columns);
+      columns = rebuilt.columns;
+      rebuilt.rows.forEach((text, index) => {
+        if (text) {
+          lines.push({ text, page: pageNumber, row: index + 1 });
+        }
+      });
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return lines;
+}
@@ -0,0 +1,87 @@
+// Provenance helpers - record which rule produced a field and where its text sits in rawLine
+import type { FieldConfidence, FieldProvenance, ParsedTransaction } from './transactionParser';
+
+/**
+ * Offset of a capture group inside the whole match. Groups are matched left to right, so the search
+ * starts after the preceding groups; otherwise a value that also appears earlier in the match
+ * (e.g. equal credit and debit columns) would be placed on the wrong text.
+ */
+function groupOffset(match: RegExpMatchArray, group: number): number {
+  let cursor = 0;
+  for (let preceding = 1; preceding < group; preceding++) {
+    const text = match[preceding];
+    if (text === undefined) continue;
+    const offset = match[0].indexOf(text, cursor);
+    if (offset !== -1) cursor = offset + text.length;
+  }
+
+  const offset = match[0].indexOf(match[group], cursor);
+  // Not found after the preceding groups: the group is nested inside one of them
+  return offset !== -1 ? offset : match[0].indexOf(match[group]);
+}
+
+/**
+ * Provenance for a regex capture group. The span is found inside the whole match,
+ * so the match must have been run against rawLine itself.
+ */
+export function fromMatch(
+  match: RegExpMatchArray | null,
+  rule: string,
+  confidence: FieldConfidence,
+  group: number = 1
+): FieldProvenance | undefined {
+  if (!match || !match[group] || match.index === undefined) return undefined;
+  const start = match.index + groupOffset(match, group);
+  return { rule, span: [start, start + match[group].length], confidence };
+}
+
+/**
+ * Provenance for a value read from a column or element; the span is its first
+ * occurrence in rawLine at or after fromIndex
+ */
+export function fromText(
+  rawLine: string,
+  value: string,
+  rule: string,
+  confidence: FieldConfidence,
+  fromIndex: number = 0
+): FieldProvenance | undefined {
+  if (!value) return undefined;
+  const start = rawLine.indexOf(value, fromIndex);
+  return { rule, span: start === -1 ? undefined : [start, start + value.length], confidence };
+}
+
+/**
+ * Provenance for a value that was not read from the line (a default or a lookup)
+ */
+export function assumed(rule: string, confidence: FieldConfidence = 'medium'): FieldProvenance {
+  return { rule, confidence };
+}
+
+export function isLowConfidence(transaction: ParsedTransaction, field: keyof ParsedTransaction): boolean {
+  return transaction.provenance?.[field]?.confidence === 'low';
+}
+
+// A highlighted stretch of rawLine; key names what was found there
+export interface LineSegment<K extends string = string> {
+  text: string;
+  key?: K;
+}
+
+/**
+ * Split rawLine into plain and highlighted segments. Spans are taken in order of position;
+ * a span overlapping one already taken is skipped.
+ */
+export function splitBySpans<K extends string>(rawLine: string, spans: { key: K; span: [number, number] }[]): LineSegment<K>[] {
+  const sorted = [...spans].sort((a, b) => a.span[0] - b.span[0]);
+  const result: LineSegment<K>[] = [];
+  let cursor = 0;
+  for (const { key, span: [start, end] } of sorted) {
+    if (start < cursor) continue;
+    result.push({ text: rawLine.slice(cursor, start) });
+    result.push({ text: rawLine.slice(start, end), key });
+    cursor = end;
+  }
+  result.push({ text: rawLine.slice(cursor) });
+  return result.filter(s => s.text);
+}
@@ -0,0 +1,56 @@
+// Record Assembler - join statement lines that were wrapped by web portal copy-paste back into one record
+import type { LineSource } from './transactionParser';
+
+export interface StatementLine {
+  text: string;
+  lineNumber: number;     // 1-based line number in the pasted/uploaded input
+  source?: LineSource;
+}
+
+export interface StatementRecord {
+  text: string;           // Lines of the record joined with a single space
+  lineNumbers: number[];  // Input lines that make up the record
+  source?: LineSource;    // Provenance of the first line
+  stray?: boolean;        // A line that neither starts a record nor continues an unfinished one
+}
+
+/**
+ * Group lines into records. A line matching recordStart begins a new record; any other line is a
+ * continuation of the record before it (e.g. a narration wrapped onto the next line) as long as that
+ * record is unfinished - it does not match recordEnd yet. Every other line (text before the first
+ * record, footers, stray text between complete records) is kept as a stray record of its own so it
+ * shows up as failed. Without a recordStart pattern every line is its own record.
+ *
+ * recordStart has to tell a record from a wrapped line that happens to begin with a date: a CRDB
+ * narration wrapped before its value date continues on "20.01.2026 00:00:00  0.00  12,500.00 ...",
+ * which must join the record above rather than start a new one.
+ */
+export function assembleRecords(lines: StatementLine[], recordStart?: RegExp, recordEnd?: RegExp): StatementRecord[] {
+  const records: StatementRecord[] = [];
+
+  for (const line of lines) {
+    const current = records[records.length - 1];
+
+    if (!recordStart || recordStart.test(line.text.trim())) {
+      records.push({ text: line.text, lineNumbers: [line.lineNumber], source: line.source });
+    } else if (!current || current.stray || recordEnd?.test(current.text.trim())) {
+      records.push({ text: line.text, lineNumbers: [line.lineNumber], source: line.source, stray: true });
+    } else {
+      // Keep tabs at either side of the break - the continuation may carry the remaining columns
+      current.text = `${current.text.replace(/\r$/, '')} ${line.text.replace(/\r$/, '')}`;
+      current.lineNumbers.push(line.lineNumber);
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Describe where a record came from, e.g. "line 12" or "lines 12-14"
+ */
+export function describeLineNumbers(lineNumbers?: number[]): string {
+  if (!lineNumbers || lineNumbers.length === 0) return '';
+  const first = lineNumbers[0];
+  const last = lineNumbers[lineNumbers.length - 1];
+  return first === last ? `line ${first}` : `lines ${first}-${last}`;
+}
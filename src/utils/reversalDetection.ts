@@ -0,0 +1,130 @@
+// Reversal Detection - pairs a reversal or correction line with the transaction it undoes
+// (same amount, opposite direction, a reversal marker, quoting the original's Trx ID or reference,
+// a few days apart at most) so both are netted out
+import type { ParsedTransaction } from './transactionParser';
+
+// Marks one side of a reversal pair; both rows carry the same pairId
+export interface ReversalLink {
+  role: 'original' | 'reversal';
+  pairId: number;
+  reference: string;          // Reference the reversal quotes
+}
+
+// Marker on a reversal line. Refunds and corrections are new transactions, not reversals, and are kept.
+const REVERSAL_MARKER = /\b(?:reversal|reversed|rvsl|rev)\b/i;
+
+// Reversals are usually posted the same day; allow a weekend in between but no more
+const MAX_REVERSAL_DAYS = 3;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Transaction ids quoted in a narration: "Trx ID PS2076699419", "REF:19bdb0f42ad57818", "TXN NO 123456"
+const QUOTED_ID_PATTERN = /\b(?:trx|txn|transaction|ref)\s*(?:id|no|ref)?\s*[:.#]?\s*([A-Z0-9]{6,})\b/gi;
+
+// Shorter references (e.g. "500") would match amounts and dates in unrelated lines; references
+// without a digit are narration words ("TRANSACTION CHARGES")
+const MIN_REFERENCE_LENGTH = 6;
+
+// References another line could quote to point at this transaction
+function referencesOf(transaction: ParsedTransaction): string[] {
+  const quoted = [...transaction.rawLine.matchAll(QUOTED_ID_PATTERN)].map(match => match[1]);
+  const references = [transaction.invoiceNo, transaction.fitId, ...quoted]
+    .filter(reference => reference && reference.length >= MIN_REFERENCE_LENGTH && /\d/.test(reference))
+    .map(reference => reference.toUpperCase());
+  return [...new Set(references)];
+}
+
+// Whether line contains reference as a whole word
+function quotes(line: string, reference: string): boolean {
+  const upperLine = line.toUpperCase();
+  for (let index = upperLine.indexOf(reference); index !== -1; index = upperLine.indexOf(reference, index + 1)) {
+    const before = upperLine[index - 1];
+    const after = upperLine[index + reference.length];
+    if (!(before && /[A-Z0-9]/.test(before)) && !(after && /[A-Z0-9]/.test(after))) return true;
+  }
+  return false;
+}
+
+// Reference of one row that the other row's line quotes
+function sharedReference(a: ParsedTransaction, b: ParsedTransaction): string | undefined {
+  return referencesOf(a).find(reference => quotes(b.rawLine, reference))
+    || referencesOf(b).find(reference => quotes(a.rawLine, reference));
+}
+
+// Whether both rows have a date and are at most MAX_REVERSAL_DAYS apart
+function withinReversalWindow(a: ParsedTransaction, b: ParsedTransaction): boolean {
+  if (!a.isoDate || !b.isoDate) return false;
+  const days = Math.abs(Date.parse(a.isoDate) - Date.parse(b.isoDate)) / MS_PER_DAY;
+  return days <= MAX_REVERSAL_DAYS;
+}
+
+/**
+ * Which row of a pair is the reversal: the one carrying the marker, else the one quoting
+ * a reference that is not its own, else the debit (an agency deposit taken back)
+ */
+function isReversalOf(candidate: ParsedTransaction, other: ParsedTransaction, reference: string): boolean {
+  const candidateMarked = REVERSAL_MARKER.test(candidate.rawLine);
+  if (candidateMarked !== REVERSAL_MARKER.test(other.rawLine)) return candidateMarked;
+
+  const candidateOwn = candidate.invoiceNo.toUpperCase() === reference;
+  if (candidateOwn !== (other.invoiceNo.toUpperCase() === reference)) return !candidateOwn;
+
+  return candidate.direction === 'Debit';
+}
+
+/**
+ * Pair reversals with their originals and mark both rows (see ParsedTransaction.reversal).
+ * Rows pair when the amounts are equal, the directions opposite, one line carries a reversal marker
+ * (REV, REVERSAL, RVSL), one line quotes the other's reference and the dates are at most
+ * MAX_REVERSAL_DAYS apart; each row pairs at most once, with the first match in statement order.
+ * Returns the number of pairs found.
+ */
+export function markReversals(transactions: ParsedTransaction[]): number {
+  // Rows by direction and amount, so each row is only compared with opposite rows of the same amount
+  const keyOf = (transaction: ParsedTransaction, direction: string) =>
+    `${direction}:${transaction.amount.currency}:${transaction.amount.minorUnits}`;
+  const byAmount = new Map<string, ParsedTransaction[]>();
+  for (const transaction of transactions) {
+    const key = keyOf(transaction, transaction.direction);
+    if (!byAmount.has(key)) byAmount.set(key, []);
+    byAmount.get(key).push(transaction);
+  }
+
+  let pairCount = 0;
+  for (const transaction of transactions) {
+    if (transaction.reversal || transaction.amount.minorUnits === 0) continue;
+
+    const candidates = byAmount.get(keyOf(transaction, transaction.direction === 'Debit' ? 'Credit' : 'Debit')) || [];
+    for (const other of candidates) {
+      if (other.reversal) continue;
+      if (!REVERSAL_MARKER.test(transaction.rawLine) && !REVERSAL_MARKER.test(other.rawLine)) continue;
+      if (!withinReversalWindow(transaction, other)) continue;
+
+      const reference = sharedReference(transaction, other);
+      if (!reference) continue;
+
+      pairCount++;
+      const transactionIsReversal = isReversalOf(transaction, other, reference);
+      transaction.reversal = { role: transactionIsReversal ? 'reversal' : 'original', pairId: pairCount, reference };
+      other.reversal = { role: transactionIsReversal ? 'original' : 'reversal', pairId: pairCount, reference };
+      break;
+    }
+  }
+
+  return pairCount;
+}
+
+/**
+ * Reversed pairs, original first, in the order they were found
+ */
+export function groupReversalPairs(transactions: ParsedTransaction[]): [ParsedTransaction, ParsedTransaction][] {
+  const pairs = new Map<number, ParsedTransaction[]>();
+  for (const transaction of transactions) {
+    if (!transaction.reversal) continue;
+    if (!pairs.has(transaction.reversal.pairId)) pairs.set(transaction.reversal.pairId, []);
+    pairs.get(transaction.reversal.pairId).push(transaction);
+  }
+
+  return [...pairs.values()]
+    .filter(pair => pair.length === 2)
+    .map(pair => (pair[0].reversal.role === 'original' ? [pair[0], pair[1]] : [pair[1], pair[0]]));
+}
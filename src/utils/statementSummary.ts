@@ -0,0 +1,140 @@
+// Statement Summary - period, opening/closing balance and credit/debit totals of a parsed statement,
+// reconciled against the totals the statement itself reports (MT940/camt balances, header/footer lines)
+import type { ParsedTransaction } from './transactionParser';
+import { balanceMovement, ContinuityReport } from './balanceContinuity';
+import { absMoney, addMoney, DEFAULT_CURRENCY, formatMoney, Money, parseMoney, subtractMoney, sumMoney } from './money';
+
+// Totals printed on the statement itself
+export interface StatementTotals {
+  openingBalance?: Money;
+  closingBalance?: Money;
+  totalCredits?: Money;
+  totalDebits?: Money;
+}
+
+export interface ReconciliationCheck {
+  label: string;
+  expected: Money;          // Reported by the statement (or, for the balance movement, the closing balance)
+  actual: Money;            // Worked out from the parsed rows
+}
+
+export type ReconciliationStatus = 'reconciled' | 'unreconciled' | 'unchecked';
+
+export interface StatementSummary {
+  periodStart?: string;     // First payment date (YYYY-MM-DD)
+  periodEnd?: string;       // Last payment date (YYYY-MM-DD)
+  openingBalance?: Money;   // Reported, or worked back from the first row's running balance
+  closingBalance?: Money;   // Reported, or the last row's running balance
+  totalCredits: Money;
+  totalDebits: Money;
+  checks: ReconciliationCheck[];
+  status: ReconciliationStatus;
+  difference?: Money;       // actual - expected of the first check that failed
+}
+
+// Header/footer total lines, e.g. "Opening Balance: TZS 1,000,000.00" or "TOTAL CREDITS 52,500.00"
+const TOTAL_LINE_PATTERNS: [keyof StatementTotals, RegExp][] = [
+  ['openingBalance', /^(?:opening|starting|start)\s+balance\b|^balance\s+(?:b\/f|brought\s+forward)\b/i],
+  ['closingBalance', /^(?:closing|ending|end)\s+balance\b|^balance\s+(?:c\/f|carried\s+forward)\b/i],
+  ['totalCredits', /^total\s+(?:credits?|deposits?|paid\s+in|money\s+in)\b/i],
+  ['totalDebits', /^total\s+(?:debits?|withdrawals?|withdrawn|money\s+out)\b/i]
+];
+
+/**
+ * True for a header/footer line that reports a statement total rather than a transaction
+ */
+export function isStatementTotalLine(line: string): boolean {
+  const text = line.trim();
+  return TOTAL_LINE_PATTERNS.some(([, pattern]) => pattern.test(text));
+}
+
+/**
+ * Read the totals from any header/footer total lines; the amount is the last number on the line,
+ * in the currency named on the line or else the statement's currency
+ */
+export function extractStatementTotals(rawData: string, statementCurrency: string = DEFAULT_CURRENCY): StatementTotals {
+  const totals: StatementTotals = {};
+  for (const line of rawData.split('\n')) {
+    const text = line.trim();
+    const entry = TOTAL_LINE_PATTERNS.find(([, pattern]) => pattern.test(text));
+    if (!entry) continue;
+
+    const amounts = text.match(/\(?-?\d[\d,]*(?:\.\d{1,2})?\)?/g);
+    if (!amounts) continue;
+    const currency = text.match(/\b(TZS|KES|UGX|USD|EUR|GBP)\b/i)?.[1].toUpperCase() || statementCurrency;
+    totals[entry[0]] = parseMoney(amounts[amounts.length - 1], currency);
+  }
+  return totals;
+}
+
+/**
+ * Summarise the parsed rows (every row of the statement, before already-saved duplicates are removed)
+ * and reconcile them: opening + credits - debits must give the closing balance, and the credit and
+ * debit totals must match any the statement reports. Balances the statement does not report are
+ * taken from the rows' running balances, in the order found by the continuity check.
+ */
+export function summarizeStatement(
+  transactions: ParsedTransaction[],
+  continuity: ContinuityReport,
+  reported: StatementTotals
+): StatementSummary {
+  const currency = transactions[0]?.amount.currency || reported.openingBalance?.currency || DEFAULT_CURRENCY;
+  const credits = transactions.filter(t => t.direction === 'Credit');
+  const debits = transactions.filter(t => t.direction === 'Debit');
+  const totalCredits = sumMoney(credits.map(t => t.amount), currency);
+  const totalDebits = sumMoney(debits.map(t => t.amount), currency);
+
+  const dates = transactions.map(t => t.isoDate).filter(date => date).sort();
+
+  // Rows oldest first, to work the opening balance back from the first running balance
+  const timeOrder = continuity.order === 'newest-first' ? [...transactions].reverse() : transactions;
+  let openingBalance = reported.openingBalance;
+  let closingBalance = reported.closingBalance;
+  const firstWithBalance = timeOrder.findIndex(t => t.balance);
+  if (firstWithBalance !== -1) {
+    if (!openingBalance) {
+      openingBalance = subtractMoney(timeOrder[firstWithBalance].balance, sumMoney(timeOrder.slice(0, firstWithBalance + 1).map(balanceMovement), currency));
+    }
+    if (!closingBalance) {
+      const lastWithBalance = timeOrder.length - 1 - [...timeOrder].reverse().findIndex(t => t.balance);
+      closingBalance = addMoney(timeOrder[lastWithBalance].balance, sumMoney(timeOrder.slice(lastWithBalance + 1).map(balanceMovement), currency));
+    }
+  }
+
+  const checks: ReconciliationCheck[] = [];
+  if (openingBalance && closingBalance) {
+    checks.push({
+      label: 'Opening balance + credits - debits = closing balance',
+      expected: closingBalance,
+      actual: subtractMoney(addMoney(openingBalance, totalCredits), totalDebits)
+    });
+  }
+  if (reported.totalCredits) {
+    checks.push({ label: 'Total credits', expected: reported.totalCredits, actual: totalCredits });
+  }
+  if (reported.totalDebits) {
+    checks.push({ label: 'Total debits', expected: reported.totalDebits, actual: totalDebits });
+  }
+
+  const failed = checks.find(check => check.actual.minorUnits !== check.expected.minorUnits);
+  return {
+    periodStart: dates[0],
+    periodEnd: dates[dates.length - 1],
+    openingBalance,
+    closingBalance,
+    totalCredits,
+    totalDebits,
+    checks,
+    status: checks.length === 0 ? 'unchecked' : failed ? 'unreconciled' : 'reconciled',
+    difference: failed ? subtractMoney(failed.actual, failed.expected) : undefined
+  };
+}
+
+/**
+ * Badge text: "Reconciled", "Off by TZS 5,000.00", or "Not checked" when there was nothing to check against
+ */
+export function describeReconciliation(status: ReconciliationStatus, difference?: Money): string {
+  if (status === 'reconciled') return 'Reconciled';
+  if (status === 'unreconciled' && difference) return `Off by ${formatMoney(absMoney(difference), true)}`;
+  return 'Not checked';
+}
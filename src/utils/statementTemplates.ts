@@ -0,0 +1,243 @@
+// Statement Templates - user-defined line formats built from a highlighted sample line
+import { v4 as uuidv4 } from 'uuid';
+import type { FailedRule, ParsedTransaction, TransactionProvenance } from './transactionParser';
+import type { BankFormat } from './banks';
+import { createEmptyTransaction } from './banks/common';
+import { readPaymentDate } from './dateNormalization';
+import { absMoney, parseMoney } from './money';
+import { fromText } from './provenance';
+
+export type TemplateFieldKey = 'paymentDate' | 'invoiceNo' | 'amount' | 'customer' | 'depositToAccountName';
+
+export const TEMPLATE_FIELDS: { key: TemplateFieldKey; label: string }[] = [
+    { key: 'paymentDate', label: 'Date' },
+    { key: 'invoiceNo', label: 'Reference' },
+    { key: 'amount', label: 'Amount' },
+    { key: 'customer', label: 'Payer' },
+    { key: 'depositToAccountName', label: 'Branch' }
+];
+
+export interface TemplateField {
+    key: TemplateFieldKey;
+    pattern: string;        // Regex source; the first capture group is the field value
+}
+
+export interface StatementTemplate {
+    id: string;
+    name: string;
+    sampleLine: string;
+    fields: TemplateField[];
+    createdAt: string;
+}
+
+const STORAGE_KEY = 'statement_templates';
+const TEMPLATE_ID_PREFIX = 'TPL:';
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build the anchor that locates the start of a field from the text before it
+ */
+function buildPrefixPattern(before: string): string {
+    if (!before.trim()) {
+        return '^\\s*';
+    }
+
+    // Field starts a tab-separated column - anchor on the column number
+    const columnMatch = before.match(/\t[ ]*$/);
+    if (columnMatch) {
+        const column = before.split('\t').length - 1;
+        return `^(?:[^\\t]*\\t){${column}}\\s*`;
+    }
+
+    // Field follows a label such as "Description " or "REF:"
+    const tokenMatch = before.match(/(\S+)(\s*)$/);
+    if (tokenMatch && !/\d/.test(tokenMatch[1])) {
+        return escapeRegExp(tokenMatch[1]) + (tokenMatch[2] ? '\\s*' : '');
+    }
+
+    // Otherwise anchor on the single delimiter character before the field
+    const last = before[before.length - 1];
+    return /\s/.test(last) ? '\\s' : escapeRegExp(last);
+}
+
+/**
+ * Build a lookahead for the text after a free-text field so the lazy match knows where to stop
+ */
+function buildSuffixPattern(after: string): string {
+    if (!after.trim()) {
+        return '(?=\\s*$)';
+    }
+    if (after.startsWith('\t')) {
+        return '(?=\\t)';
+    }
+    const tokenMatch = after.match(/^(\s*)(\S+)/);
+    if (tokenMatch && !/\d/.test(tokenMatch[2])) {
+        return `(?=${tokenMatch[1] ? '\\s*' : ''}${escapeRegExp(tokenMatch[2])})`;
+    }
+    return '(?=\\s)';
+}
+
+/**
+ * Generalize sample text into a shape pattern (digits, letters, whitespace, literal punctuation)
+ */
+function buildShapePattern(text: string): string {
+    return (text.match(/\d+|[A-Za-z]+|\s+|./g) || []).map(run => {
+        if (/^\d+$/.test(run)) return run.length <= 2 ? '\\d{1,2}' : `\\d{${run.length}}`;
+        if (/^[A-Za-z]+$/.test(run)) return '[A-Za-z]+';
+        if (/^\s+$/.test(run)) return '\\s+';
+        return escapeRegExp(run);
+    }).join('');
+}
+
+function buildValuePattern(key: TemplateFieldKey, value: string): string {
+    switch (key) {
+        case 'amount':
+            return '(-?[\\d,]+(?:\\.\\d+)?)';
+        case 'paymentDate':
+            return `(${buildShapePattern(value)})`;
+        case 'invoiceNo':
+            if (/^\d+$/.test(value)) return '(\\d+)';
+            if (/^[A-Za-z0-9]+$/.test(value)) return '([A-Za-z0-9]+)';
+            return '(\\S+)';
+        default:
+            return '(.+?)';
+    }
+}
+
+/**
+ * Generate the extraction pattern for a span [start, end) of the sample line
+ */
+export function buildFieldPattern(sampleLine: string, start: number, end: number, key: TemplateFieldKey): string {
+    const before = sampleLine.slice(0, start);
+    const value = sampleLine.slice(start, end);
+    const after = sampleLine.slice(end);
+
+    const isFreeText = key === 'customer' || key === 'depositToAccountName';
+    return buildPrefixPattern(before) + buildValuePattern(key, value) + (isFreeText ? buildSuffixPattern(after) : '');
+}
+
+/**
+ * Apply a single field pattern to a line; returns '' when it does not match or the pattern is invalid
+ */
+export function extractTemplateField(line: string, pattern: string): string {
+    try {
+        const match = line.match(new RegExp(pattern));
+        return match ? (match[1] ?? match[0]).trim() : '';
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * Check that a pattern compiles
+ */
+export function isValidPattern(pattern: string): boolean {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Load saved templates from localStorage
+ */
+export function loadStatementTemplates(): StatementTemplate[] {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+        return [];
+    }
+
+    try {
+        return JSON.parse(stored) as StatementTemplate[];
+    } catch (error) {
+        console.error('[StatementTemplates] Could not read saved templates:', error);
+        return [];
+    }
+}
+
+function storeStatementTemplates(templates: StatementTemplate[]): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+}
+
+/**
+ * Save a new template and return the updated list
+ */
+export function saveStatementTemplate(
+    template: Omit<StatementTemplate, 'id' | 'createdAt'>
+): StatementTemplate[] {
+    const templates = [
+        ...loadStatementTemplates(),
+        { ...template, id: uuidv4(), createdAt: new Date().toISOString() }
+    ];
+    storeStatementTemplates(templates);
+    return templates;
+}
+
+/**
+ * Delete a template and return the updated list
+ */
+export function deleteStatementTemplate(id: string): StatementTemplate[] {
+    const templates = loadStatementTemplates().filter(t => t.id !== id);
+    storeStatementTemplates(templates);
+    return templates;
+}
+
+/**
+ * Turn a template into a bank format so it can be offered in the input panel
+ */
+export function templateToBankFormat(template: StatementTemplate): BankFormat {
+    const fields = template.fields.filter(f => isValidPattern(f.pattern));
+
+    const parseLine = (line: string): ParsedTransaction => {
+        const trimmedLine = line.trim();
+        if (!trimmedLine) return createEmptyTransaction(line, 'Empty line');
+
+        const values: Partial<Record<TemplateFieldKey, string>> = {};
+        const provenance: TransactionProvenance = {};
+        const failedRules: FailedRule[] = [];
+        for (const field of fields) {
+            values[field.key] = extractTemplateField(trimmedLine, field.pattern);
+            const label = TEMPLATE_FIELDS.find(f => f.key === field.key)?.label || field.key;
+            provenance[field.key] = fromText(trimmedLine, values[field.key] || '', `Template "${label}" pattern`, 'high');
+            if (!values[field.key]) failedRules.push({ field: field.key, rule: `Template "${label}" pattern` });
+        }
+        provenance.referenceMemo = provenance.invoiceNo;
+
+        const isValid = !!(values.amount || values.paymentDate);
+
+        return {
+            paymentDate: values.paymentDate || '',
+            ...readPaymentDate(values.paymentDate || ''),
+            customer: values.customer || '',
+            paymentMethod: '', // Set by the payment method rules after parsing (paymentMethodRules.ts)
+            depositToAccountName: values.depositToAccountName || `${template.name} Collection AC`,
+            invoiceNo: values.invoiceNo || '',
+            journalNo: '',
+            amount: absMoney(parseMoney(values.amount || '')),
+            // A template has a single amount field; a leading minus marks money out
+            direction: values.amount?.startsWith('-') ? 'Debit' : 'Credit',
+            referenceMemo: values.invoiceNo || '',
+            countryCode: '',
+            exchangeRate: '',
+            rawLine: trimmedLine,
+            provenance,
+            failedRules,
+            isValid,
+            errorMessage: isValid ? undefined : `Line does not match the "${template.name}" template`
+        };
+    };
+
+    return {
+        id: `${TEMPLATE_ID_PREFIX}${template.id}`,
+        displayName: template.name,
+        sampleData: template.sampleLine,
+        signatures: fields.map(f => new RegExp(f.pattern)),
+        parseLine,
+        dedupKey: t => t.invoiceNo
+    };
+}
@@ -1,18 +1,85 @@
-// Transaction Parser Utility for NMB Bank Statements
-import { CustomerMapping, extractMemberIdFromDescription, findCustomerByMemberId } from './customerMappingService';
+// Transaction Parser Utility for Bank Statements
+import {
+  CustomerMapping,
+  extractMemberIdFromDescription,
+  findCustomerByMemberId,
+  findCustomerByPhoneNumber
+} from './customerMappingService';
+import { BankFormat, BankId, DEFAULT_BANK_ID, getBankFormat } from './banks';
+import { createEmptyTransaction } from './banks/common';
+import { assembleRecords, StatementRecord } from './recordAssembler';
+import { DEFAULT_EXPORT_DATE_FORMAT, ExportDateFormat, formatPaymentDate } from './dateNormalization';
+import { currenciesOf, Money } from './money';
+import { fromText } from './provenance';
+import { checkBalanceContinuity, ContinuityReport } from './balanceContinuity';
+import { extractStatementTotals, isStatementTotalLine, StatementSummary, StatementTotals, summarizeStatement } from './statementSummary';
+import { ChargeAccounts, ChargeCategory, classifyCharge } from './chargeClassifier';
+import { markReversals, ReversalLink } from './reversalDetection';
+import { applyPaymentMethodRules } from './paymentMethodRules';
+import { applyDepositAccountMapping } from './depositAccountMapping';
+
+// Where a statement line came from in an uploaded document (e.g. a PDF page)
+export interface LineSource {
+  page: number;   // 1-based page number
+  row: number;    // 1-based row number on the page
+}
+
+// Money into (Credit) or out of (Debit) the collection account
+export type TransactionDirection = 'Credit' | 'Debit';
+
+// Opening/closing balance reported by the statement itself
+export interface StatementBalance {
+  date: string;       // DD/MM/YYYY
+  amount: Money;      // Negative for a debit balance
+}
+
+// How sure a parser is about an extracted field
+export type FieldConfidence = 'high' | 'medium' | 'low';
+
+// Where a field value came from: the rule that produced it and where it sits in rawLine
+export interface FieldProvenance {
+  rule: string;                // Pattern, column or fallback that produced the value
+  span?: [number, number];     // [start, end) character offsets in rawLine; absent for defaults and lookups
+  confidence: FieldConfidence;
+}
+
+export type TransactionProvenance = Partial<Record<keyof ParsedTransaction, FieldProvenance>>;
+
+// A rule a parser tried for a field that did not match the line
+export interface FailedRule {
+  field: keyof ParsedTransaction;
+  rule: string;
+}
 
 // QuickBooks-compatible transaction format
 export interface ParsedTransaction {
-  paymentDate: string;           // Transaction date
+  paymentDate: string;           // Transaction date as printed on the statement
+  isoDate?: string;               // paymentDate as a calendar date (YYYY-MM-DD); the export is formatted from this
+  dateWarning?: string;           // Set when paymentDate could not be read, or day/month order was guessed
   customer: string;               // Client name
-  paymentMethod: string;          // Cash, Transfer, etc.
+  paymentMethod: string;          // Cash, Bank Transfer, etc.
   depositToAccountName: string;   // Account where money is deposited
+  branchCode?: string;            // Branch the deposit was made at (e.g. "101"), when the statement shows it
+  depositAccountLookup?: { branch: string; mapped: boolean }; // Branch/collection account looked up for depositToAccountName
   invoiceNo: string;              // Reference/Transaction ID
   journalNo: string;              // Journal entry number
-  amount: string;                 // Transaction amount
+  amount: Money;                  // Transaction amount (always positive; see direction)
+  direction: TransactionDirection; // Credits are customer payments; debits are withdrawals, charges and transfers out
+  chargeCategory?: ChargeCategory; // Set for bank charge, levy and tax lines; exported to the charges file
+  reversal?: ReversalLink;        // Set on both rows of a reversal pair; neither is exported
   referenceMemo: string;          // Additional reference information
   countryCode: string;            // Country code (e.g., "TZ" for Tanzania)
   exchangeRate: string;           // Exchange rate (default "1" or empty)
+  valueDate?: string;             // Value date, when the statement has a separate column
+  balance?: Money;                // Running account balance after the transaction
+  payerPhone?: string;            // Payer MSISDN for mobile money statements
+  grossAmount?: Money;            // Amount before wallet fees (mobile money only)
+  fee?: Money;                    // Wallet fee deducted from the gross amount
+  fitId?: string;                 // OFX financial institution transaction id (dedup key for OFX)
+  source?: LineSource;            // Page/row of the line in an uploaded PDF
+  lineNumbers?: number[];         // Input lines (1-based) the record was assembled from
+  provenance?: TransactionProvenance; // Rule, rawLine span and confidence for each extracted field
+  failedRules?: FailedRule[];     // Rules tried without a match, shown in the raw-line inspector
   rawLine: string;                // Original line for debugging
   isValid: boolean;               // Whether parsing was successful
   errorMessage?: string;          // Error message if parsing failed
@@ -24,262 +91,173 @@ export interface ParseResult {
   totalLines: number;
   successCount: number;
   failCount: number;
-  bankType: 'NMB' | 'CRDB';
+  bankType: BankId;
+  openingBalance?: StatementBalance;   // Set for formats that report balances (e.g. MT940)
+  closingBalance?: StatementBalance;
+  continuity?: ContinuityReport;       // Running-balance check over every parsed row (before duplicates are removed)
+  summary?: StatementSummary;          // Period, balances and totals, reconciled against the statement's own totals
+  mixedCurrencies?: string[];          // Set when rows or balances are in more than one currency; nothing is totalled
 }
 
-export function parseTransactionLine(line: string): ParsedTransaction {
-  const trimmedLine = line.trim();
-
-  if (!trimmedLine) {
-    return {
-      paymentDate: '',
-      customer: '',
-      paymentMethod: '',
-      depositToAccountName: '',
-      invoiceNo: '',
-      journalNo: '',
-      amount: '',
-      referenceMemo: '',
-      countryCode: '',
-      exchangeRate: '',
-      rawLine: line,
-      isValid: false,
-      errorMessage: 'Empty line'
-    };
-  }
-
-  try {
-    // Extract date - pattern like "14  Jan 2026" or "14 Jan 2026"
-    const datePattern = /(\d{1,2}\s+[A-Za-z]{3}\s+\d{4})/;
-    const dateMatch = trimmedLine.match(datePattern);
-    const paymentDate = dateMatch ? dateMatch[1].replace(/\s+/g, ' ').trim() : '';
-
-    // Extract Description reference ID - pattern like "Description 111111111" or "Description 111111111!!"
-    const descriptionPattern = /Description\s+(\d+)/i;
-    const descriptionMatch = trimmedLine.match(descriptionPattern);
-    const invoiceNo = descriptionMatch ? descriptionMatch[1] : '';
-
-    // Extract User ID - pattern like "@20710095898@" or account number
-    const userIdPattern = /@(\d+)@/;
-    const userIdMatch = trimmedLine.match(userIdPattern);
-    let userId = userIdMatch ? userIdMatch[1] : '';
-
-    // Alternative: Extract from "=> NAME" pattern for user name
-    const userNamePattern = /=>\s*([A-Z\s]+?)(?:\t|$)/i;
-    const userNameMatch = trimmedLine.match(userNamePattern);
-    const userName = userNameMatch ? userNameMatch[1].trim() : '';
-
-    if (!userId && userName) {
-      userId = userName;
-    }
-
-    // Extract amount - look for standalone number before TZS balance
-    const amountPattern = /\t(\d+(?:,\d{3})*(?:\.\d{2})?)\t+(?:TZS|$)/i;
-    const amountMatch = trimmedLine.match(amountPattern);
-    let amount = amountMatch ? amountMatch[1] : '';
+export { parseTransactionLine } from './banks/nmb';
+export { parseCRDBTransactionLine } from './banks/crdb';
+export { parseNBCTransactionLine } from './banks/nbc';
+export { parseMpesaTransactionLine } from './banks/mpesa';
+export { parseAirtelTransactionLine } from './banks/airtel';
+export { parseMixxTransactionLine } from './banks/mixx';
+export { parseMT940TransactionLine, parseMT940Statement } from './banks/mt940';
+export { parseCamt053TransactionLine, parseCamt053Statement } from './banks/camt053';
+export { parseOFXTransactionLine, parseOFXStatement } from './banks/ofx';
 
-    // Alternative amount pattern - number before TZS balance
-    if (!amount) {
-      const altAmountPattern = /\t(\d+(?:,\d{3})*(?:\.\d{2})?)\s*\t*\s*TZS/i;
-      const altMatch = trimmedLine.match(altAmountPattern);
-      amount = altMatch ? altMatch[1] : '';
-    }
+export function parseTransactions(
+  rawData: string,
+  bankType: BankId = DEFAULT_BANK_ID,
+  customerMappings: CustomerMapping[] = [],
+  lineSources?: LineSource[]       // Provenance for each line of rawData, by line index
+): ParseResult {
+  const bank = getBankFormat(bankType);
 
-    // If still no amount, try to find deposited amount in description
-    if (!amount) {
-      const depositPattern = /(\d+(?:,\d{3})*(?:\.\d{2})?)\s*(?:\t|TZS)/;
-      const depositMatch = trimmedLine.match(depositPattern);
-      if (depositMatch) {
-        amount = depositMatch[1];
-      }
-    }
+  if (bank.parseStatement) {
+    const { transactions, openingBalance, closingBalance } = bank.parseStatement(rawData);
+    const result = addStatementChecks({ ...buildParseResult(transactions, bankType, customerMappings), openingBalance, closingBalance }, rawData);
+    markReversals(result.successful);
+    return result;
+  }
 
-    // Determine payment method from description
-    let paymentMethod = 'Cash';
-    if (trimmedLine.toLowerCase().includes('transfer')) {
-      paymentMethod = 'Transfer';
-    } else if (trimmedLine.toLowerCase().includes('mobile')) {
-      paymentMethod = 'Mobile Banking';
-    } else if (trimmedLine.toLowerCase().includes('atm')) {
-      paymentMethod = 'ATM';
-    } else if (trimmedLine.toLowerCase().includes('cheque')) {
-      paymentMethod = 'Cheque';
-    }
+  const parsed = splitStatementRecords(rawData, bank, lineSources).map(record => parseStatementRecord(bank, record));
+  const result = addStatementChecks(buildParseResult(parsed, bankType, customerMappings), rawData);
+  markReversals(result.successful);
+  return result;
+}
 
-    // Extract Product Name/Branch - usually the branch/office name
-    const productNamePattern = /\d{3}\s*-\s*([^-]+)\s*-/;
-    const productNameMatch = trimmedLine.match(productNamePattern);
-    const depositToAccountName = productNameMatch ? productNameMatch[1].trim() : 'NMB Collection AC';
-
-    // Customer name - will be populated from database mapping
-    const customer = userName || '';
-
-    // Reference memo - combine user ID and description snippet
-    const referenceMemo = userId ? `${userId}` : invoiceNo;
-
-    const isValid = !!(invoiceNo || amount || paymentDate);
-
-    return {
-      paymentDate,
-      customer,
-      paymentMethod,
-      depositToAccountName,
-      invoiceNo,
-      journalNo: '', // Can be auto-generated or left empty
-      amount,
-      referenceMemo,
-      countryCode: '', // Will be set to empty or "TZ" based on configuration
-      exchangeRate: '', // Will be set to empty or "1" based on configuration
-      rawLine: trimmedLine,
-      isValid,
-      errorMessage: isValid ? undefined : 'Could not extract required fields'
-    };
-  } catch (error) {
-    return {
-      paymentDate: '',
-      customer: '',
-      paymentMethod: '',
-      depositToAccountName: '',
-      invoiceNo: '',
-      journalNo: '',
-      amount: '',
-      referenceMemo: '',
-      countryCode: '',
-      exchangeRate: '',
-      rawLine: trimmedLine,
-      isValid: false,
-      errorMessage: `Parse error: ${error instanceof Error ? error.message : 'Unknown error'}`
-    };
+/**
+ * Add the running-balance check and the statement summary. Call with every parsed row still in
+ * result.successful, before already-saved duplicates are removed; rawData supplies any header/footer totals.
+ */
+export function addStatementChecks(result: ParseResult, rawData: string = ''): ParseResult {
+  const { openingBalance, closingBalance } = result;
+  const currency = result.successful[0]?.amount.currency || openingBalance?.amount.currency;
+
+  // Balances reported by the format itself (MT940, camt.053, OFX) come before footer lines
+  const reported: StatementTotals = extractStatementTotals(rawData, currency);
+  if (openingBalance) reported.openingBalance = openingBalance.amount;
+  if (closingBalance) reported.closingBalance = closingBalance.amount;
+
+  // Amounts in different currencies cannot be added up, so there is nothing to reconcile
+  const currencies = currenciesOf([
+    ...result.successful.flatMap(t => t.balance ? [t.amount, t.balance] : [t.amount]),
+    ...Object.values(reported)
+  ]);
+  if (currencies.length > 1) {
+    return { ...result, mixedCurrencies: currencies };
   }
-}
 
-export function parseCRDBTransactionLine(line: string): ParsedTransaction {
-  const trimmedLine = line.trim();
-  if (!trimmedLine) return createEmptyTransaction(line, 'Empty line');
-
-  try {
-    // CRDB Format: Date Time REF Description Date Time Amount1 Amount2 Balance
-    // Example: 19.01.2026 22:40:00 REF:... 12,500.00 595,288,508.22
-
-    // 1. Extract Date (First date occurrence)
-    const datePattern = /(\d{2}\.\d{2}\.\d{4})/;
-    const dateMatch = trimmedLine.match(datePattern);
-    const paymentDate = dateMatch ? dateMatch[1].replace(/\./g, '/') : ''; // Convert to DD/MM/YYYY
-
-    // 2. Extract Amounts
-    const amountsRegex = /([\d,]+\.\d{2})/g;
-    const allAmounts = [...trimmedLine.matchAll(amountsRegex)].map(m => m[1]);
-
-    let amount = '';
-    if (allAmounts.length >= 2) {
-      if (allAmounts.length >= 3) {
-        amount = allAmounts[allAmounts.length - 2];
-      } else {
-        amount = allAmounts[allAmounts.length - 1];
-      }
-    } else if (allAmounts.length === 1) {
-      amount = allAmounts[0];
-    }
+  const continuity = checkBalanceContinuity(result.successful, openingBalance, closingBalance);
+  return { ...result, continuity, summary: summarizeStatement(result.successful, continuity, reported) };
+}
 
-    // 3. Extract Account Number
-    const accountPattern = /:(\d{10,14})\s+/;
-    const accountMatch = trimmedLine.match(accountPattern);
-    const accountNumber = accountMatch ? accountMatch[1] : '';
-
-    // 4. Extract Ref ID
-    const refPattern = /REF:([a-zA-Z0-9]+)/;
-    const refMatch = trimmedLine.match(refPattern);
-    const invoiceNo = refMatch ? refMatch[1] : '';
-
-    // 5. Extract Client Name
-    const namePattern = /:([a-zA-Z\s]+):(?=\d{10,14})/;
-    const nameMatch = trimmedLine.match(namePattern);
-    const customer = nameMatch ? nameMatch[1].trim() : '';
-
-    const isValid = !!(amount || paymentDate);
-
-    return {
-      paymentDate,
-      customer,
-      paymentMethod: 'Transfer',
-      depositToAccountName: 'CRDB Collection AC',
-      invoiceNo,
-      journalNo: '',
-      amount,
-      referenceMemo: accountNumber || invoiceNo,
-      countryCode: '',
-      exchangeRate: '',
-      rawLine: trimmedLine,
-      isValid,
-      errorMessage: isValid ? undefined : 'Could not extract required fields from CRDB line'
-    };
-
-  } catch (error) {
-    return createEmptyTransaction(line, `Parse error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
+/**
+ * Split statement text into the records a line-based format parses one at a time:
+ * blank, header and statement total lines are dropped and wrapped continuation lines joined onto their record
+ */
+export function splitStatementRecords(rawData: string, bank: BankFormat, lineSources?: LineSource[]): StatementRecord[] {
+  const lines = rawData
+    .split('\n')
+    .map((text, index) => ({ text, lineNumber: index + 1, source: lineSources?.[index] }))
+    .filter(({ text }) => text.trim() && !bank.isHeaderLine?.(text.trim()) && !isStatementTotalLine(text));
+
+  return assembleRecords(lines, bank.recordStart, bank.recordEnd);
 }
 
-function createEmptyTransaction(line: string, errorMessage?: string): ParsedTransaction {
-  return {
-    paymentDate: '',
-    customer: '',
-    paymentMethod: '',
-    depositToAccountName: '',
-    invoiceNo: '',
-    journalNo: '',
-    amount: '',
-    referenceMemo: '',
-    countryCode: '',
-    exchangeRate: '',
-    rawLine: line,
-    isValid: false,
-    errorMessage
-  };
+/**
+ * Parse one assembled record, keeping the input lines it came from. Stray lines fail without being parsed.
+ */
+export function parseStatementRecord(bank: BankFormat, { text, lineNumbers, source, stray }: StatementRecord): ParsedTransaction {
+  const transaction = stray
+    ? createEmptyTransaction(text, `Stray line - neither starts a ${bank.displayName} transaction nor continues an unfinished one`)
+    : bank.parseLine(text);
+  transaction.lineNumbers = lineNumbers;
+  if (source) {
+    transaction.source = source;
+  }
+  return transaction;
 }
 
-export function parseTransactions(
-  rawData: string,
-  bankType: 'NMB' | 'CRDB' = 'NMB',
+/**
+ * Enrich already-parsed transactions with payment method rules, deposit account mappings, charge
+ * categories and customer names, and split them into successful/failed. Shared by text parsing and structured (Excel/CSV) imports.
+ */
+export function buildParseResult(
+  parsed: ParsedTransaction[],
+  bankType: BankId,
   customerMappings: CustomerMapping[] = []
 ): ParseResult {
-  const lines = rawData.split('\n').filter(line => line.trim());
   const successful: ParsedTransaction[] = [];
   const failed: ParsedTransaction[] = [];
 
-  for (const line of lines) {
-    const parsed = bankType === 'CRDB' ? parseCRDBTransactionLine(line) : parseTransactionLine(line);
+  for (const transaction of parsed) {
+    if (transaction.isValid) {
+      applyPaymentMethodRules(transaction, bankType);
+      applyDepositAccountMapping(transaction, bankType);
+      classifyCharge(transaction);
+    }
 
-    // Enrich with customer name if mapping is available
-    if (parsed.isValid && customerMappings.length > 0) {
+    // Enrich with customer name if mapping is available (charges have no customer)
+    if (transaction.isValid && !transaction.chargeCategory && customerMappings.length > 0) {
       // Extract Member ID from the raw line or reference memo
-      const memberId = extractMemberIdFromDescription(parsed.rawLine);
-      if (memberId) {
-        const customerName = findCustomerByMemberId(memberId, customerMappings);
-        if (customerName) {
-          parsed.customer = customerName;
-        }
+      const memberId = extractMemberIdFromDescription(transaction.rawLine);
+      const memberName = memberId && findCustomerByMemberId(memberId, customerMappings);
+      const customerName = memberName
+        || (transaction.payerPhone && findCustomerByPhoneNumber(transaction.payerPhone, customerMappings));
+      if (customerName) {
+        transaction.customer = customerName;
+        transaction.provenance = {
+          ...transaction.provenance,
+          customer: memberName
+            ? fromText(transaction.rawLine.toUpperCase(), memberId, 'Customer mapping by member ID', 'high')
+            : fromText(transaction.rawLine, transaction.payerPhone || '', 'Customer mapping by phone number', 'high')
+        };
+      } else if (memberId) {
+        transaction.failedRules = [
+          ...(transaction.failedRules || []),
+          { field: 'customer', rule: `Customer mapping by member ID (${memberId} not mapped)` }
+        ];
       }
     }
 
-    if (parsed.isValid) {
-      successful.push(parsed);
-    } else if (line.trim()) {
-      failed.push(parsed);
+    if (transaction.isValid) {
+      successful.push(transaction);
+    } else {
+      failed.push(transaction);
     }
   }
 
   return {
     successful,
     failed,
-    totalLines: lines.length,
+    totalLines: parsed.length,
     successCount: successful.length,
     failCount: failed.length,
     bankType
   };
 }
 
-export function generateExcelData(transactions: ParsedTransaction[]): any[][] {
-  const headers = [
+/**
+ * Split transactions into payments received (credits) and withdrawals/charges/transfers out (debits)
+ */
+export function splitByDirection(transactions: ParsedTransaction[]): { credits: ParsedTransaction[]; debits: ParsedTransaction[] } {
+  return {
+    credits: transactions.filter(t => t.direction === 'Credit'),
+    debits: transactions.filter(t => t.direction === 'Debit')
+  };
+}
+
+// Export cell: text, or a money value written as a numeric cell
+export type ExportCell = string | Money;
+
+// QuickBooks "Receive Payment" rows - debits and reversed payments are never exported here
+export function generateExcelData(transactions: ParsedTransaction[], dateFormat: ExportDateFormat = DEFAULT_EXPORT_DATE_FORMAT): ExportCell[][] {
+  const headers: ExportCell[] = [
     'Payment Date',
     'Customer',
     'Payment Method',
@@ -292,8 +270,8 @@ export function generateExcelData(transactions: ParsedTransaction[]): any[][] {
     'Exchange Rate'
   ];
 
-  const rows = transactions.map(t => [
-    t.paymentDate,
+  const rows = splitByDirection(transactions).credits.filter(t => !t.reversal).map(t => [
+    formatPaymentDate(t, dateFormat),
     t.customer,
     t.paymentMethod,
     t.depositToAccountName,
@@ -307,3 +285,49 @@ export function generateExcelData(transactions: ParsedTransaction[]): any[][] {
 
   return [headers, ...rows];
 }
+
+// Expenses/transfers rows for debits (withdrawals, transfers out) - charges have their own file
+export function generateWithdrawalData(transactions: ParsedTransaction[], dateFormat: ExportDateFormat = DEFAULT_EXPORT_DATE_FORMAT): ExportCell[][] {
+  const headers: ExportCell[] = [
+    'Date',
+    'Payee',
+    'Payment Account',
+    'Ref No',
+    'Amount',
+    'Memo'
+  ];
+
+  const rows = splitByDirection(transactions).debits.filter(t => !t.chargeCategory && !t.reversal).map(t => [
+    formatPaymentDate(t, dateFormat),
+    t.customer,
+    t.depositToAccountName,
+    t.invoiceNo,
+    t.amount,
+    t.referenceMemo
+  ]);
+
+  return [headers, ...rows];
+}
+
+// Bank charge, levy and tax rows, each booked to the QuickBooks expense account of its category
+export function generateChargeData(
+  transactions: ParsedTransaction[],
+  accounts: ChargeAccounts,
+  dateFormat: ExportDateFormat = DEFAULT_EXPORT_DATE_FORMAT
+): ExportCell[][] {
+  const headers: ExportCell[] = [
+    'Date',
+    'Account',
+    'Amount',
+    'Memo'
+  ];
+
+  const rows = transactions.filter(t => t.chargeCategory && !t.reversal).map(t => [
+    formatPaymentDate(t, dateFormat),
+    accounts[t.chargeCategory],
+    t.amount,
+    t.invoiceNo ? `${t.referenceMemo} (${t.invoiceNo})` : t.referenceMemo
+  ]);
+
+  return [headers, ...rows];
+}
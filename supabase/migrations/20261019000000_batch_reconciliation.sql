@@ -0,0 +1,6 @@
+-- Reconciliation result of each saved batch (see statementSummary.ts)
+-- Batches saved before this migration keep NULL in both columns
+ALTER TABLE transaction_batches
+  ADD COLUMN IF NOT EXISTS reconciliation_status text
+    CHECK (reconciliation_status IN ('reconciled', 'unreconciled', 'unchecked')),
+  ADD COLUMN IF NOT EXISTS reconciliation_difference numeric;
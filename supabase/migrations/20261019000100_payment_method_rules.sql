@@ -0,0 +1,14 @@
+-- Payment method rules shared by everyone using the app (see paymentMethodRules.ts)
+-- Ids are text: the built-in rules keep their "default-..." ids once saved
+CREATE TABLE IF NOT EXISTS payment_method_rules (
+  id text PRIMARY KEY,
+  pattern text NOT NULL,
+  method text NOT NULL,
+  priority integer NOT NULL DEFAULT 0,
+  bank_id text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- The app signs in with the anon key, so anyone using it may read and edit the rules
+ALTER TABLE payment_method_rules ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Anyone can edit payment method rules" ON payment_method_rules FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,7 @@
+-- Reversal pair of each saved transaction (see reversalDetection.ts), so a saved batch
+-- exports without the reversed payments. Rows saved before this migration keep NULL.
+ALTER TABLE parsed_transactions
+  ADD COLUMN IF NOT EXISTS reversal_role text
+    CHECK (reversal_role IN ('original', 'reversal')),
+  ADD COLUMN IF NOT EXISTS reversal_pair_id integer,
+  ADD COLUMN IF NOT EXISTS reversal_reference text;
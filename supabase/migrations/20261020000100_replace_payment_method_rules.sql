@@ -0,0 +1,44 @@
+-- Payment method rules are replaced as a whole set in one transaction (replace_payment_method_rules),
+-- and only signed-in users may change them; everyone using the app can still read them.
+
+-- Version of the saved set: the newest updated_at. A save states the version it was edited from and
+-- is refused when someone else has saved since.
+ALTER TABLE payment_method_rules
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+DROP POLICY IF EXISTS "Anyone can edit payment method rules" ON payment_method_rules;
+CREATE POLICY "Anyone can read payment method rules" ON payment_method_rules
+  FOR SELECT USING (true);
+CREATE POLICY "Signed-in users can edit payment method rules" ON payment_method_rules
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Replace every rule with the given set ([{id, pattern, method, priority, bank_id}, ...]) and return
+-- the new version. Runs with the caller's rights, so the policies above still apply.
+CREATE OR REPLACE FUNCTION replace_payment_method_rules(rules jsonb, expected_version timestamptz)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  saved_at timestamptz := clock_timestamp();
+BEGIN
+  -- One save at a time; a second one waits here and then sees the first one's version
+  LOCK TABLE payment_method_rules IN SHARE ROW EXCLUSIVE MODE;
+
+  IF (SELECT max(updated_at) FROM payment_method_rules) IS DISTINCT FROM expected_version THEN
+    RAISE EXCEPTION 'The payment method rules were changed by someone else. Reload the page and make your changes again.'
+      USING ERRCODE = '40001';
+  END IF;
+
+  DELETE FROM payment_method_rules WHERE true;
+  INSERT INTO payment_method_rules (id, pattern, method, priority, bank_id, updated_at)
+  SELECT r.id, r.pattern, r.method, r.priority, r.bank_id, saved_at
+  FROM jsonb_to_recordset(rules) AS r(id text, pattern text, method text, priority integer, bank_id text);
+
+  -- Saving no rules brings back the defaults; the empty table keeps no version
+  RETURN CASE WHEN jsonb_array_length(rules) > 0 THEN saved_at END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION replace_payment_method_rules(jsonb, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION replace_payment_method_rules(jsonb, timestamptz) TO authenticated;
@@ -3,7 +3,9 @@ import react from "@vitejs/plugin-react-swc";
 import path from "path";
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
+export default defineConfig(({ mode, isSsrBuild }) => ({
+  // The CLI (npm run build:cli) is an SSR build and needs none of the web app's static files
+  publicDir: isSsrBuild ? false : "public",
   server: {
     host: "::",
     port: 8080,